@@ -9,6 +9,18 @@ module.exports = {
 	AngleUnit    : Angle_module.AngleUnit,
 	Color        : Color_module.default,
 	ColorSpace   : Color_module.ColorSpace,
+	YCbCrStandard         : Color_module.YCbCrStandard,
+	GamutMapping          : Color_module.GamutMapping,
+	DeltaE                : Color_module.DeltaE,
+	HueInterpolation      : Color_module.HueInterpolation,
+	ColorVisionDeficiency : Color_module.ColorVisionDeficiency,
+	BlendMode             : Color_module.BlendMode,
+	CompositeOperator     : Color_module.CompositeOperator,
+	QuantizationMethod    : Color_module.QuantizationMethod,
+	AnsiColorMode         : Color_module.AnsiColorMode,
+	Illuminant            : Color_module.Illuminant,
+	ColorScale            : require('./dist/class/ColorScale.class.js'  ).default,
+	ColorTheme            : require('./dist/class/ColorTheme.class.js'  ).default,
 	Duration     : Duration_module.default,
 	DurationUnit : Duration_module.LengthUnit,
 	Fraction     : require('./dist/class/Fraction.class.js').default,
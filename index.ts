@@ -3,7 +3,9 @@
 // See `./index.js` for the manual output.
 
 export { default as Angle, AngleUnit   } from './src/class/Angle.class'
-export { default as Color, ColorSpace  } from './src/class/Color.class'
+export { default as Color, ColorSpace, YCbCrStandard, ColorStringOptions, ColorJSON, GamutMapping, DeltaE, HueInterpolation, ColorVisionDeficiency, BlendMode, CompositeOperator, QuantizationMethod, AnsiColorMode, Illuminant } from './src/class/Color.class'
+export { default as ColorScale         } from './src/class/ColorScale.class'
+export { default as ColorTheme         } from './src/class/ColorTheme.class'
 export { default as Duration, DurationUnit } from './src/class/Duration.class'
 export { default as Fraction           } from './src/class/Fraction.class'
 export { default as Integer            } from './src/class/Integer.class'
@@ -4,12 +4,32 @@ import Percentage from './Percentage.class'
 import Fraction from './Fraction.class'
 import Angle, {AngleUnit} from './Angle.class'
 import { HalfOpenRightInterval } from './Interval.class'
+import Vector from './Vector.class'
+import MatrixSquare from './MatrixSquare.class'
 
 const NAMES: { [index: string]: string } = require('../../src/color-names.json')
 
 
 type Triple = [number, number, number]
 
+/**
+ * A predefined RGB or XYZ color space, as used in the CSS `color()` function.
+ */
+interface PredefinedSpace {
+	/** The identifier of this space in the CSS `color()` function. */
+	readonly name: string;
+	/** The reference white point of this space. */
+	readonly white: 'D50'|'D65';
+	/** Conversion matrix from this space’s linear-light values to CIE XYZ, relative to its white point. */
+	readonly toXYZ: MatrixSquare;
+	/** Conversion matrix from CIE XYZ, relative to this space’s white point, to its linear-light values. */
+	readonly fromXYZ: MatrixSquare;
+	/** The transfer function from this space’s encoded values to linear-light values. */
+	readonly toLinear: (c: number) => number;
+	/** The transfer function from this space’s linear-light values to encoded values. */
+	readonly fromLinear: (c: number) => number;
+}
+
 
 /**
  * Enum for the types of string representations of colors.
@@ -27,16 +47,292 @@ export enum ColorSpace {
 	HSL,
 	/** hwb(h w b [/ a]) */
 	HWB,
+	/** lab(l a b [/ a]) */
+	LAB,
+	/** lch(l c h [/ a]) */
+	LCH,
+	/** oklab(l a b [/ a]) */
+	OKLAB,
+	/** oklch(l c h [/ a]) */
+	OKLCH,
+	/** color(srgb r g b [/ a]) */
+	SRGB,
+	/** color(srgb-linear r g b [/ a]) */
+	SRGB_LINEAR,
+	/** color(display-p3 r g b [/ a]) */
+	DISPLAY_P3,
+	/** color(a98-rgb r g b [/ a]) */
+	A98_RGB,
+	/** color(prophoto-rgb r g b [/ a]) */
+	PROPHOTO_RGB,
+	/** color(rec2020 r g b [/ a]) */
+	REC2020,
+	/** color(xyz-d50 x y z [/ a]) */
+	XYZ_D50,
+	/** color(xyz-d65 x y z [/ a]) */
+	XYZ_D65,
+	/** hsi(h s i [/ a]) */
+	HSI,
+	/** yuv(y u v [/ a]) — analog BT.601 */
+	YUV,
+	/** yiq(y i q [/ a]) — NTSC */
+	YIQ,
+	/** ycbcr(y cb cr [/ a]) — 8-bit full-range BT.601, as in JPEG */
+	YCBCR,
+}
+
+
+/**
+ * Enum for the standards of luma coefficients used in YCbCr encoding.
+ */
+export enum YCbCrStandard {
+	/** ITU-R BT.601, standard-definition video and JPEG. */
+	BT601,
+	/** ITU-R BT.709, high-definition video. */
+	BT709,
+	/** ITU-R BT.2020, ultra-high-definition video, encoded from Rec. 2020 primaries. */
+	BT2020,
+}
+
+
+/**
+ * Enum for the methods of mapping a color into the gamut of a color space.
+ */
+export enum GamutMapping {
+	/** Clip each channel to the interval `[0, 1]`. Fast, but may shift hue and lightness. */
+	CLIP,
+	/**
+	 * Reduce OKLCH-chroma, preserving lightness and hue, until the color is in gamut.
+	 * @see https://www.w3.org/TR/css-color-4/#css-gamut-mapping
+	 */
+	CSS,
+}
+
+
+/**
+ * Enum for the formulas of perceptual color difference (Delta E).
+ */
+export enum DeltaE {
+	/** Euclidean distance in CIE Lab (1976). */
+	CIE76,
+	/** The CIE 1994 formula, weighted for graphic arts; not symmetric. */
+	CIE94,
+	/** The CIEDE2000 formula, with corrections for hue and chroma. */
+	CIEDE2000,
+	/** Euclidean distance in OKLab. */
+	OK,
+}
+
+
+/**
+ * Enum for the methods of interpolating hue when mixing colors in a cylindrical color space.
+ * @see https://www.w3.org/TR/css-color-4/#hue-interpolation
+ */
+export enum HueInterpolation {
+	/** Take the shorter arc between the two hues (default). */
+	SHORTER,
+	/** Take the longer arc between the two hues. */
+	LONGER,
+	/** Go around the hue wheel in the positive direction. */
+	INCREASING,
+	/** Go around the hue wheel in the negative direction. */
+	DECREASING,
+}
+
+
+/**
+ * Enum for the types of color vision deficiency that can be simulated.
+ *
+ * At full severity, the dichromacies (protanopia, deuteranopia, and tritanopia) are simulated;
+ * at partial severity, the corresponding anomalous trichromacies are simulated.
+ */
+export enum ColorVisionDeficiency {
+	/** Protanopia (missing L-cones) or protanomaly (weak L-cones): red–green confusion. */
+	PROTAN,
+	/** Deuteranopia (missing M-cones) or deuteranomaly (weak M-cones): red–green confusion. */
+	DEUTAN,
+	/** Tritanopia (missing S-cones) or tritanomaly (weak S-cones): blue–yellow confusion. */
+	TRITAN,
+	/** Achromatopsia: total color blindness, where only luminance is perceived. */
+	ACHROMATOPSIA,
+}
+
+
+/**
+ * Enum for the modes of blending a source color with a backdrop color.
+ * @see https://www.w3.org/TR/compositing-1/#blending
+ */
+export enum BlendMode {
+	/** The source color. */
+	NORMAL,
+	/** The product of the source and backdrop; always at least as dark as either. */
+	MULTIPLY,
+	/** The complement of the product of the complements; always at least as light as either. */
+	SCREEN,
+	/** Multiply or screen, depending on the backdrop. */
+	OVERLAY,
+	/** The darker of the source and backdrop, per channel. */
+	DARKEN,
+	/** The lighter of the source and backdrop, per channel. */
+	LIGHTEN,
+	/** Brighten the backdrop to reflect the source. */
+	COLOR_DODGE,
+	/** Darken the backdrop to reflect the source. */
+	COLOR_BURN,
+	/** Multiply or screen, depending on the source. */
+	HARD_LIGHT,
+	/** Darken or lighten, depending on the source; a softer version of hard light. */
+	SOFT_LIGHT,
+	/** The absolute difference of the source and backdrop. */
+	DIFFERENCE,
+	/** Similar to difference, but lower in contrast. */
+	EXCLUSION,
+	/** The hue of the source, with the saturation and luminosity of the backdrop. */
+	HUE,
+	/** The saturation of the source, with the hue and luminosity of the backdrop. */
+	SATURATION,
+	/** The hue and saturation of the source, with the luminosity of the backdrop. */
+	COLOR,
+	/** The luminosity of the source, with the hue and saturation of the backdrop. */
+	LUMINOSITY,
+}
+
+
+/**
+ * Enum for the Porter–Duff operators for compositing a source color with a destination color.
+ * @see https://www.w3.org/TR/compositing-1/#porterduffcompositingoperators
+ */
+export enum CompositeOperator {
+	/** Neither the source nor the destination is shown. */
+	CLEAR,
+	/** Only the source is shown. */
+	COPY,
+	/** Only the destination is shown. */
+	DESTINATION,
+	/** The source is placed over the destination. */
+	SOURCE_OVER,
+	/** The destination is placed over the source. */
+	DESTINATION_OVER,
+	/** The part of the source inside the destination is shown. */
+	SOURCE_IN,
+	/** The part of the destination inside the source is shown. */
+	DESTINATION_IN,
+	/** The part of the source outside the destination is shown. */
+	SOURCE_OUT,
+	/** The part of the destination outside the source is shown. */
+	DESTINATION_OUT,
+	/** The part of the source inside the destination is placed over the destination. */
+	SOURCE_ATOP,
+	/** The part of the destination inside the source is placed over the source. */
+	DESTINATION_ATOP,
+	/** The parts of the source and destination outside each other are shown. */
+	XOR,
+	/** The source and destination are added together. */
+	LIGHTER,
+}
+
+
+/**
+ * Enum for the algorithms of color quantization.
+ * @see Color.quantize
+ */
+export enum QuantizationMethod {
+	/**
+	 * Repeatedly split the box of colors with the widest range at the median of that range.
+	 * @see https://en.wikipedia.org/wiki/Median_cut
+	 */
+	MEDIAN_CUT,
+	/**
+	 * Refine the clusters of median-cut by k-means (Lloyd’s algorithm). Slower, but usually more faithful.
+	 * @see https://en.wikipedia.org/wiki/K-means_clustering
+	 */
+	K_MEANS,
+}
+
+
+/**
+ * Enum for the color modes of ANSI terminals.
+ * @see Color#toAnsi
+ */
+export enum AnsiColorMode {
+	/** The 16 system colors: 8 normal and 8 bright, whose exact values depend on the terminal. */
+	ANSI_16,
+	/** The xterm 256-color palette: the 16 system colors, a 6×6×6 color cube, and a 24-step grayscale ramp. */
+	ANSI_256,
+	/** 24-bit RGB. */
+	TRUECOLOR,
+}
+
+
+/**
+ * Enum for the CIE standard illuminants under which a spectrum may be viewed.
+ * @see Color.fromSpectrum
+ */
+export enum Illuminant {
+	/** Average daylight, with a correlated color temperature of about 6504K. */
+	D65,
+	/** Incandescent (tungsten) light: a blackbody radiator at about 2856K. */
+	A,
+	/** The equal-energy illuminant, with the same power at all wavelengths. */
+	E,
+}
+
+
+/**
+ * Options for formatting the string representation of a color.
+ * @see Color#toString
+ */
+export interface ColorStringOptions {
+	/** The maximum number of fraction digits of each decimal value; by default, full precision (and RGB values are integers). */
+	readonly precision?: number;
+	/** The unit of hue values (default turns). */
+	readonly hueUnit?: AngleUnit;
+	/** Use the legacy comma-separated syntax, e.g. `rgba(r, g, b, a)`? Only for RGB, CMYK, HSV, HSL, and HWB. */
+	readonly legacy?: boolean;
+	/** Use uppercase hexadecimal digits? */
+	readonly uppercase?: boolean;
+	/** Include the alpha channel even if this color is opaque? */
+	readonly forceAlpha?: boolean;
+	/**
+	 * Express channels as percentages (`true`) or numbers (`false`)? By default, each space uses its conventional form.
+	 * In legacy syntax, the non-hue channels of HSV, HSL, and HWB are always percentages.
+	 */
+	readonly percent?: boolean;
+	/** Use the three- or four-digit hex form when no information is lost? */
+	readonly shortHex?: boolean;
+}
+
+
+/**
+ * The JSON representation of a color.
+ * @see Color#toJSON
+ */
+export interface ColorJSON {
+	/** The name of the color space of the channels, a member of {@link ColorSpace}. */
+	readonly space: string;
+	/** The three channels of the color in its space, or `null` for a missing channel. */
+	readonly channels: readonly (number|null)[];
+	/** The alpha channel of the color, or `null` if it is missing. */
+	readonly alpha: number|null;
 }
 
 
 /**
  * An abstract representation of a color that can be displayed in a pixel,
  * given three primary color channels and a possible transparency channel.
+ *
+ * Colors are stored in extended sRGB, whose channels may lie outside the interval `[0, 1]`,
+ * so that colors of wide-gamut spaces such as Display P3 and Rec. 2020 can be represented.
  */
 export default class Color {
 	private static readonly _NUMBER_OR_PERCENTAGE: string = `${xjs.Number.REGEXP.source.slice(1,-1)}%?`
 	private static readonly _NUMBER_OR_ANGLE     : string = `${xjs.Number.REGEXP.source.slice(1,-1)}(?:deg|grad|rad|turn)?`
+	private static readonly _NUMBER_OR_NONE              : string = `(?:${xjs.Number.REGEXP.source.slice(1,-1)}|none)`
+	private static readonly _PERCENTAGE_OR_NONE          : string = `(?:${Percentage.REGEXP.source.slice(1,-1)}|none)`
+	private static readonly _NUMBER_OR_PERCENTAGE_OR_NONE: string = `(?:${Color._NUMBER_OR_PERCENTAGE}|none)`
+	private static readonly _NUMBER_OR_ANGLE_OR_NONE     : string = `(?:${Color._NUMBER_OR_ANGLE}|none)`
+	/** The chroma below which a color is considered achromatic, in LCH and OKLCH. */
+	private static readonly _ACHROMATIC_EPSILON: number = 1e-4
 
 	/**
 	 * An immutable RegExp instance, representing a string in {@link ColorSpace.HEX} format.
@@ -67,10 +363,10 @@ export default class Color {
 	 */
 	static readonly REGEXP_RGB: Readonly<RegExp> = new RegExp(`^rgb\\(\\s*${
 		`(?:${
-			`${xjs.Number.REGEXP.source.slice(1,-1)}(?:\\s+${xjs.Number.REGEXP.source.slice(1,-1)}){2}` + `|` +
-			`${Percentage.REGEXP.source.slice(1,-1)}(?:\\s+${Percentage.REGEXP.source.slice(1,-1)}){2}`
+			`${Color._NUMBER_OR_NONE}(?:\\s+${Color._NUMBER_OR_NONE}){2}` + `|` +
+			`${Color._PERCENTAGE_OR_NONE}(?:\\s+${Color._PERCENTAGE_OR_NONE}){2}`
 		})` +
-		`(?:\\s*/\\s*${Color._NUMBER_OR_PERCENTAGE})?`
+		`(?:\\s*/\\s*${Color._NUMBER_OR_PERCENTAGE_OR_NONE})?`
 	}\\s*\\)$`)
 	/**
 	 * An immutable RegExp instance, representing a string in {@link ColorSpace.CMYK} format.
@@ -123,15 +419,454 @@ export default class Color {
 		`\\s*,\\s*${Color._NUMBER_OR_PERCENTAGE}`
 	}\\s*\\)$`)
 	/**
-	 * An immutable RegExp instance, representing a string in {@link ColorSpace.HSV}, {@link ColorSpace.HSL}, or {@link ColorSpace.HWB} formats.
+	 * An immutable RegExp instance, representing a string in {@link ColorSpace.HSV}, {@link ColorSpace.HSL}, {@link ColorSpace.HWB}, or {@link ColorSpace.HSI} formats.
 	 *
-	 * Updated with CSS-Color-4 specs.
+	 * Updated with CSS-Color-4 specs: the channels after the hue may be percentages or numbers 0–100.
 	 */
-	static readonly REGEXP_HUE: Readonly<RegExp> = new RegExp(`^(?:hsv|hsl|hwb)\\(\\s*${
-		Color._NUMBER_OR_ANGLE +
-		`(?:\\s+${Percentage.REGEXP.source.slice(1,-1)}){2}` +
+	static readonly REGEXP_HUE: Readonly<RegExp> = new RegExp(`^(?:hsv|hsl|hwb|hsi)\\(\\s*${
+		Color._NUMBER_OR_ANGLE_OR_NONE +
+		`(?:\\s+${Color._NUMBER_OR_PERCENTAGE_OR_NONE}){2}` +
+		`(?:\\s*/\\s*${Color._NUMBER_OR_PERCENTAGE_OR_NONE})?`
+	}\\s*\\)$`)
+	/**
+	 * An immutable RegExp instance, representing a string in {@link ColorSpace.YUV}, {@link ColorSpace.YIQ}, or {@link ColorSpace.YCBCR} formats.
+	 *
+	 * These formats are not specified in CSS.
+	 */
+	static readonly REGEXP_LUMA: Readonly<RegExp> = new RegExp(`^(?:yuv|yiq|ycbcr)\\(\\s*${
+		xjs.Number.REGEXP.source.slice(1,-1) +
+		`(?:\\s+${xjs.Number.REGEXP.source.slice(1,-1)}){2}` +
 		`(?:\\s*/\\s*${Color._NUMBER_OR_PERCENTAGE})?`
 	}\\s*\\)$`)
+	/**
+	 * An immutable RegExp instance, representing a string in {@link ColorSpace.LAB} format.
+	 *
+	 * Specified in CSS-Color-4.
+	 */
+	static readonly REGEXP_LAB: Readonly<RegExp> = new RegExp(`^lab\\(\\s*${
+		Color._NUMBER_OR_PERCENTAGE_OR_NONE +
+		`(?:\\s+${Color._NUMBER_OR_PERCENTAGE_OR_NONE}){2}` +
+		`(?:\\s*/\\s*${Color._NUMBER_OR_PERCENTAGE_OR_NONE})?`
+	}\\s*\\)$`)
+	/**
+	 * An immutable RegExp instance, representing a string in {@link ColorSpace.LCH} format.
+	 *
+	 * Specified in CSS-Color-4.
+	 */
+	static readonly REGEXP_LCH: Readonly<RegExp> = new RegExp(`^lch\\(\\s*${
+		Color._NUMBER_OR_PERCENTAGE_OR_NONE +
+		`\\s+${Color._NUMBER_OR_PERCENTAGE_OR_NONE}` +
+		`\\s+${Color._NUMBER_OR_ANGLE_OR_NONE}` +
+		`(?:\\s*/\\s*${Color._NUMBER_OR_PERCENTAGE_OR_NONE})?`
+	}\\s*\\)$`)
+	/**
+	 * An immutable RegExp instance, representing a string in {@link ColorSpace.OKLAB} format.
+	 *
+	 * Specified in CSS-Color-4.
+	 */
+	static readonly REGEXP_OKLAB: Readonly<RegExp> = new RegExp(`^oklab\\(\\s*${
+		Color._NUMBER_OR_PERCENTAGE_OR_NONE +
+		`(?:\\s+${Color._NUMBER_OR_PERCENTAGE_OR_NONE}){2}` +
+		`(?:\\s*/\\s*${Color._NUMBER_OR_PERCENTAGE_OR_NONE})?`
+	}\\s*\\)$`)
+	/**
+	 * An immutable RegExp instance, representing a string in {@link ColorSpace.OKLCH} format.
+	 *
+	 * Specified in CSS-Color-4.
+	 */
+	static readonly REGEXP_OKLCH: Readonly<RegExp> = new RegExp(`^oklch\\(\\s*${
+		Color._NUMBER_OR_PERCENTAGE_OR_NONE +
+		`\\s+${Color._NUMBER_OR_PERCENTAGE_OR_NONE}` +
+		`\\s+${Color._NUMBER_OR_ANGLE_OR_NONE}` +
+		`(?:\\s*/\\s*${Color._NUMBER_OR_PERCENTAGE_OR_NONE})?`
+	}\\s*\\)$`)
+	/**
+	 * An immutable RegExp instance, representing a string in one of the predefined color spaces
+	 * ({@link ColorSpace.SRGB}, {@link ColorSpace.DISPLAY_P3}, etc.), using the `color()` function.
+	 *
+	 * Specified in CSS-Color-4.
+	 */
+	static readonly REGEXP_COLOR: Readonly<RegExp> = new RegExp(`^color\\(\\s*${
+		`(?:srgb|srgb-linear|display-p3|a98-rgb|prophoto-rgb|rec2020|xyz|xyz-d50|xyz-d65)` +
+		`(?:\\s+${Color._NUMBER_OR_PERCENTAGE_OR_NONE}){3}` +
+		`(?:\\s*/\\s*${Color._NUMBER_OR_PERCENTAGE_OR_NONE})?`
+	}\\s*\\)$`)
+	/**
+	 * An immutable RegExp instance, representing a relative color, e.g. `rgb(from #336699 r g calc(b * 0.5))`.
+	 *
+	 * Only the function and the `from` keyword are validated by this expression;
+	 * the origin color and the channel expressions are validated when parsed.
+	 *
+	 * Specified in CSS-Color-5.
+	 */
+	static readonly REGEXP_RELATIVE: Readonly<RegExp> = /^(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\(\s*from\s+.+\)$/
+	/**
+	 * An immutable RegExp instance, representing a mix of two colors, using the `color-mix()` function.
+	 *
+	 * Only the interpolation method is validated by this expression;
+	 * the colors to mix are validated when parsed.
+	 *
+	 * Specified in CSS-Color-5.
+	 */
+	static readonly REGEXP_COLOR_MIX: Readonly<RegExp> = new RegExp(`^color-mix\\(\\s*in\\s+${
+		`(?:srgb|srgb-linear|display-p3|a98-rgb|prophoto-rgb|rec2020|lab|oklab|xyz|xyz-d50|xyz-d65|hsl|hwb|lch|oklch)` +
+		`(?:\\s+(?:shorter|longer|increasing|decreasing)\\s+hue)?` +
+		`\\s*,.+`
+	}\\)$`)
+
+	/**
+	 * The ANSI escape sequence that resets the colors of a terminal to their defaults.
+	 * @see Color#toAnsi
+	 */
+	static readonly ANSI_RESET: string = '\x1b[0m'
+
+	/**
+	 * The CIE XYZ tristimulus values of the D50 reference white, normalized to `Y = 1`.
+	 * @see https://www.w3.org/TR/css-color-4/#color-conversion-code
+	 */
+	private static readonly _WHITE_D50: Triple = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585]
+	/**
+	 * The CIE XYZ tristimulus values of the D65 reference white, normalized to `Y = 1`.
+	 * @see https://www.w3.org/TR/css-color-4/#color-conversion-code
+	 */
+	private static readonly _WHITE_D65: Triple = [0.3127 / 0.3290, 1, (1 - 0.3127 - 0.3290) / 0.3290]
+	/**
+	 * Conversion matrix from linear-light sRGB to CIE XYZ (D65).
+	 * @see https://www.w3.org/TR/css-color-4/#color-conversion-code
+	 */
+	private static readonly _LINEAR_SRGB_XYZ: MatrixSquare = new MatrixSquare([
+		[ 506752 / 1228815,  87881 / 245763,   12673 /   70218 ],
+		[  87098 /  409605, 175762 / 245763,   12673 /  175545 ],
+		[   7918 /  409605,  87881 / 737289, 1001167 / 1053270 ],
+	])
+	/**
+	 * Conversion matrix from CIE XYZ (D65) to linear-light sRGB.
+	 * The inverse of {@link Color._LINEAR_SRGB_XYZ}.
+	 */
+	private static readonly _XYZ_LINEAR_SRGB: MatrixSquare = new MatrixSquare([
+		[   12831 /   3959,    -329 /    214, -1974 /   3959 ],
+		[ -851781 / 878810, 1648619 / 878810, 36519 / 878810 ],
+		[     705 /  12673,   -2585 /  12673,   705 /    667 ],
+	])
+	/**
+	 * Bradford chromatic adaptation matrix from a D65 white point to a D50 white point.
+	 * @see http://www.brucelindbloom.com/index.html?Eqn_ChromAdapt.html
+	 */
+	private static readonly _D65_D50: MatrixSquare = new MatrixSquare([
+		[  1.0479298208405488,    0.022946793341019088, -0.05019222954313557 ],
+		[  0.029627815688159344,  0.990434484573249,    -0.01707382502938514 ],
+		[ -0.009243058152591178,  0.015055144896577895,  0.7518742899580008  ],
+	])
+	/**
+	 * Bradford chromatic adaptation matrix from a D50 white point to a D65 white point.
+	 * The inverse of {@link Color._D65_D50}.
+	 */
+	private static readonly _D50_D65: MatrixSquare = new MatrixSquare([
+		[  0.9554734527042182,   -0.023098536874261423, 0.0632593086610217   ],
+		[ -0.028369706963208136,  1.0099954580058226,   0.021041398966943008 ],
+		[  0.012314001688319899, -0.020507696433477912, 1.3303659366080753   ],
+	])
+	/**
+	 * Conversion matrix from CIE XYZ (D65) to the LMS cone responses used by OKLab.
+	 * @see https://bottosson.github.io/posts/oklab/
+	 * @see https://www.w3.org/TR/css-color-4/#color-conversion-code
+	 */
+	private static readonly _XYZ_LMS: MatrixSquare = new MatrixSquare([
+		[ 0.8190224379967030, 0.3619062600528904, -0.1288737815209879 ],
+		[ 0.0329836539323885, 0.9292868615863434,  0.0361446663506424 ],
+		[ 0.0481771893596242, 0.2642395317527308,  0.6335478284694309 ],
+	])
+	/**
+	 * Conversion matrix from OKLab’s LMS cone responses to CIE XYZ (D65).
+	 * The inverse of {@link Color._XYZ_LMS}.
+	 */
+	private static readonly _LMS_XYZ: MatrixSquare = new MatrixSquare([
+		[  1.2268798758459243, -0.5578149944602171,  0.2813910456659647 ],
+		[ -0.0405757452148008,  1.1122868032803170, -0.0717110580655164 ],
+		[ -0.0763729366746601, -0.4214933324022432,  1.5869240198367816 ],
+	])
+	/**
+	 * Conversion matrix from non-linear (cube-rooted) LMS cone responses to OKLab coordinates.
+	 * @see https://bottosson.github.io/posts/oklab/
+	 */
+	private static readonly _LMS_OKLAB: MatrixSquare = new MatrixSquare([
+		[ 0.2104542683093140,  0.7936177747023054, -0.0040720430116193 ],
+		[ 1.9779985324311684, -2.4285922420485799,  0.4505937096174110 ],
+		[ 0.0259040424655478,  0.7827717124575296, -0.8086757549230774 ],
+	])
+	/**
+	 * Conversion matrix from OKLab coordinates to non-linear (cube-rooted) LMS cone responses.
+	 * The inverse of {@link Color._LMS_OKLAB}.
+	 */
+	private static readonly _OKLAB_LMS: MatrixSquare = new MatrixSquare([
+		[ 1,  0.3963377773761749,  0.2158037573099136 ],
+		[ 1, -0.1055613458156586, -0.0638541728258133 ],
+		[ 1, -0.0894841775298119, -1.2914855480194092 ],
+	])
+	/**
+	 * Conversion matrix from gamma-encoded sRGB to analog YUV, as specified by ITU-R BT.601.
+	 * @see https://en.wikipedia.org/wiki/Y%E2%80%B2UV#SDTV_with_BT.601
+	 */
+	private static readonly _RGB_YUV: MatrixSquare = new MatrixSquare([
+		[  0.299  ,  0.587  ,  0.114   ],
+		[ -0.14713, -0.28886,  0.436   ],
+		[  0.615  , -0.51499, -0.10001 ],
+	])
+	/**
+	 * Conversion matrix from analog YUV to gamma-encoded sRGB, the exact inverse of {@link Color._RGB_YUV}.
+	 */
+	private static readonly _YUV_RGB: MatrixSquare = new MatrixSquare([
+		[ 1.0000000001179838, -0.00001179838438240572,  1.1398345757210222     ],
+		[ 1.0000039464605326, -0.39464605326210683   , -0.5805942338343951     ],
+		[ 0.9999796788806157,  2.0321119384367283    , -0.00001511298066375047 ],
+	])
+	/**
+	 * Conversion matrix from gamma-encoded sRGB to YIQ, as specified by the FCC for NTSC.
+	 * @see https://en.wikipedia.org/wiki/YIQ
+	 */
+	private static readonly _RGB_YIQ: MatrixSquare = new MatrixSquare([
+		[ 0.299 ,  0.587 ,  0.114  ],
+		[ 0.5959, -0.2746, -0.3213 ],
+		[ 0.2115, -0.5227,  0.3112 ],
+	])
+	/**
+	 * Conversion matrix from YIQ to gamma-encoded sRGB, the exact inverse of {@link Color._RGB_YIQ}.
+	 */
+	private static readonly _YIQ_RGB: MatrixSquare = new MatrixSquare([
+		[ 1,  0.9560502263958942,  0.6207549413271235 ],
+		[ 1, -0.27205234368892417, -0.6472057134551777 ],
+		[ 1, -1.1067043153243326,  1.7044212836963109 ],
+	])
+	/**
+	 * The luma coefficients `[Kr, Kb]` of each YCbCr standard.
+	 * @see https://en.wikipedia.org/wiki/YCbCr#R'G'B'_to_Y%E2%80%B2PbPr
+	 */
+	private static readonly _YCBCR: ReadonlyMap<YCbCrStandard, readonly [number, number]> = new Map<YCbCrStandard, readonly [number, number]>([
+		[YCbCrStandard.BT601 , [0.299 , 0.114 ]],
+		[YCbCrStandard.BT709 , [0.2126, 0.0722]],
+		[YCbCrStandard.BT2020, [0.2627, 0.0593]],
+	])
+	/**
+	 * The color matching functions x̄, ȳ, and z̄ of the CIE 1931 2° standard observer,
+	 * at every 10nm from 380nm to 780nm.
+	 * @see https://cie.co.at/datatable/cie-1931-colour-matching-functions-2-degree-observer
+	 */
+	private static readonly _CIE_1931: readonly Triple[] = [
+		[0.001368, 0.000039, 0.006450],
+		[0.004243, 0.000120, 0.020050],
+		[0.014310, 0.000396, 0.067850],
+		[0.043510, 0.001210, 0.207400],
+		[0.134380, 0.004000, 0.645600],
+		[0.283900, 0.011600, 1.385600],
+		[0.348280, 0.023000, 1.747060],
+		[0.336200, 0.038000, 1.772110],
+		[0.290800, 0.060000, 1.669200],
+		[0.195360, 0.090980, 1.287640],
+		[0.095640, 0.139020, 0.812950],
+		[0.032010, 0.208020, 0.465180],
+		[0.004900, 0.323000, 0.272000],
+		[0.009300, 0.503000, 0.158200],
+		[0.063270, 0.710000, 0.078250],
+		[0.165500, 0.862000, 0.042160],
+		[0.290400, 0.954000, 0.020300],
+		[0.433450, 0.994950, 0.008750],
+		[0.594500, 0.995000, 0.003900],
+		[0.762100, 0.952000, 0.002100],
+		[0.916300, 0.870000, 0.001650],
+		[1.026300, 0.757000, 0.001100],
+		[1.062200, 0.631000, 0.000800],
+		[1.002600, 0.503000, 0.000340],
+		[0.854450, 0.381000, 0.000190],
+		[0.642400, 0.265000, 0.000050],
+		[0.447900, 0.175000, 0.000020],
+		[0.283500, 0.107000, 0.000000],
+		[0.164900, 0.061000, 0.000000],
+		[0.087400, 0.032000, 0.000000],
+		[0.046770, 0.017000, 0.000000],
+		[0.022700, 0.008210, 0.000000],
+		[0.011359, 0.004102, 0.000000],
+		[0.005790, 0.002091, 0.000000],
+		[0.002899, 0.001047, 0.000000],
+		[0.001440, 0.000520, 0.000000],
+		[0.000690, 0.000249, 0.000000],
+		[0.000332, 0.000120, 0.000000],
+		[0.000166, 0.000060, 0.000000],
+		[0.000083, 0.000030, 0.000000],
+		[0.000042, 0.000015, 0.000000],
+	]
+	/**
+	 * The relative spectral power distribution of CIE standard illuminant D65,
+	 * at every 10nm from 380nm to 780nm, normalized to 100 at 560nm.
+	 * @see https://cie.co.at/datatable/cie-standard-illuminant-d65
+	 */
+	private static readonly _D65_SPD: readonly number[] = [
+		 49.9755,  54.6482,  82.7549,  91.4860,  93.4318,  86.6823, 104.8650, 117.0080, 117.8120, 114.8610,
+		115.9230, 108.8110, 109.3540, 107.8020, 104.7900, 107.6890, 104.4050, 104.0460, 100.0000,  96.3342,
+		 95.7880,  88.6856,  90.0062,  89.5991,  87.6987,  83.2886,  83.6992,  80.0268,  80.2146,  82.2778,
+		 78.2842,  69.7213,  71.6091,  74.3490,  61.6040,  69.8856,  75.0870,  63.5927,  46.4182,  66.8054,
+		 63.3828,
+	]
+	/**
+	 * The default values of the 16 ANSI system colors in xterm, in order of their indices.
+	 * @see https://en.wikipedia.org/wiki/ANSI_escape_code#3-bit_and_4-bit
+	 */
+	private static readonly _ANSI_16: readonly string[] = [
+		'#000000', '#cd0000', '#00cd00', '#cdcd00', '#0000ee', '#cd00cd', '#00cdcd', '#e5e5e5',
+		'#7f7f7f', '#ff0000', '#00ff00', '#ffff00', '#5c5cff', '#ff00ff', '#00ffff', '#ffffff',
+	]
+	/**
+	 * Simulation matrices for color vision deficiencies at full severity, in linear-light sRGB.
+	 *
+	 * The matrices for dichromacy are those of Machado, Oliveira, and Fernandes (2009), at severity 1.0.
+	 * The matrix for achromatopsia projects each color onto its relative luminance.
+	 * @see https://www.inf.ufrgs.br/~oliveira/pubs_files/CVD_Simulation/CVD_Simulation.html
+	 */
+	private static readonly _CVD: ReadonlyMap<ColorVisionDeficiency, MatrixSquare> = new Map<ColorVisionDeficiency, MatrixSquare>([
+		[ColorVisionDeficiency.PROTAN, new MatrixSquare([
+			[  0.152286,  1.052583, -0.204868 ],
+			[  0.114503,  0.786281,  0.099216 ],
+			[ -0.003882, -0.048116,  1.051998 ],
+		])],
+		[ColorVisionDeficiency.DEUTAN, new MatrixSquare([
+			[  0.367322,  0.860646, -0.227968 ],
+			[  0.280085,  0.672501,  0.047413 ],
+			[ -0.011820,  0.042940,  0.968881 ],
+		])],
+		[ColorVisionDeficiency.TRITAN, new MatrixSquare([
+			[  1.255528, -0.076749, -0.178779 ],
+			[ -0.078411,  0.930809,  0.147602 ],
+			[  0.004733,  0.691367,  0.303900 ],
+		])],
+		[ColorVisionDeficiency.ACHROMATOPSIA, new MatrixSquare([
+			[ 0.2126, 0.7152, 0.0722 ],
+			[ 0.2126, 0.7152, 0.0722 ],
+			[ 0.2126, 0.7152, 0.0722 ],
+		])],
+	])
+	/**
+	 * The predefined color spaces usable in the CSS `color()` function, with their conversion data.
+	 * @see https://www.w3.org/TR/css-color-4/#predefined
+	 */
+	private static readonly _PREDEFINED: ReadonlyMap<ColorSpace, PredefinedSpace> = new Map<ColorSpace, PredefinedSpace>([
+		[ColorSpace.SRGB, {
+			name      : 'srgb',
+			white     : 'D65',
+			toXYZ     : Color._LINEAR_SRGB_XYZ,
+			fromXYZ   : Color._XYZ_LINEAR_SRGB,
+			toLinear  : Color._sRGB_Linear,
+			fromLinear: Color._linear_sRGB,
+		}],
+		[ColorSpace.SRGB_LINEAR, {
+			name      : 'srgb-linear',
+			white     : 'D65',
+			toXYZ     : Color._LINEAR_SRGB_XYZ,
+			fromXYZ   : Color._XYZ_LINEAR_SRGB,
+			toLinear  : (c) => c,
+			fromLinear: (c) => c,
+		}],
+		[ColorSpace.DISPLAY_P3, {
+			name   : 'display-p3',
+			white  : 'D65',
+			toXYZ  : new MatrixSquare([
+				[ 608311 / 1250200, 189793 / 714400,  198249 / 1000160 ],
+				[  35783 /  156275, 247089 / 357200,  198249 / 2500400 ],
+				[      0,            32229 / 714400, 5220557 / 5000800 ],
+			]),
+			fromXYZ: new MatrixSquare([
+				[ 446124 / 178915, -333277 / 357830, -72051 / 178915 ],
+				[ -14852 /  17905,   63121 /  35810,    423 /  17905 ],
+				[  11844 / 330415,  -50337 / 660830, 316169 / 330415 ],
+			]),
+			toLinear  : Color._sRGB_Linear,
+			fromLinear: Color._linear_sRGB,
+		}],
+		[ColorSpace.A98_RGB, {
+			name   : 'a98-rgb',
+			white  : 'D65',
+			toXYZ  : new MatrixSquare([
+				[ 573536 /  994567,  263643 / 1420810,  187206 /  994567 ],
+				[ 591459 / 1989134, 6239551 / 9945670,  374412 / 4972835 ],
+				[  53769 / 1989134,  351524 / 4972835, 4929758 / 4972835 ],
+			]),
+			fromXYZ: new MatrixSquare([
+				[ 1829569 /  896150, -506331 /  896150, -308931 /  896150 ],
+				[ -851781 /  878810, 1648619 /  878810,   36519 /  878810 ],
+				[   16779 / 1248040, -147721 / 1248040, 1266979 / 1248040 ],
+			]),
+			toLinear  : Color._A98_Linear,
+			fromLinear: Color._linear_A98,
+		}],
+		[ColorSpace.PROPHOTO_RGB, {
+			name   : 'prophoto-rgb',
+			white  : 'D50',
+			toXYZ  : new MatrixSquare([
+				[ 0.7977666449006423, 0.13518129740053308, 0.0313477341283922  ],
+				[ 0.2880748288194013, 0.711835234241873,   0.00008993693872564 ],
+				[ 0,                  0,                   0.8251046025104602  ],
+			]),
+			fromXYZ: new MatrixSquare([
+				[  1.3457868816471583, -0.25557208737979464, -0.05110186497554526 ],
+				[ -0.5446307051249019,  1.5082477428451468,   0.02052744743642139 ],
+				[  0,                   0,                    1.2119675456389452  ],
+			]),
+			toLinear  : Color._ProPhoto_Linear,
+			fromLinear: Color._linear_ProPhoto,
+		}],
+		[ColorSpace.REC2020, {
+			name   : 'rec2020',
+			white  : 'D65',
+			toXYZ  : new MatrixSquare([
+				[ 63426534 / 99577255,  20160776 / 139408157,  47086771 / 278816314 ],
+				[ 26158966 / 99577255, 472592308 / 697040785,   8267143 / 139408157 ],
+				[        0,             19567812 / 697040785, 295819943 / 278816314 ],
+			]),
+			fromXYZ: new MatrixSquare([
+				[  30757411 / 17917100, -6372589 / 17917100, -4539589 / 17917100 ],
+				[ -19765991 / 29648200, 47925759 / 29648200,   467509 / 29648200 ],
+				[    792561 / 44930125, -1921689 / 44930125, 42328811 / 44930125 ],
+			]),
+			toLinear  : Color._Rec2020_Linear,
+			fromLinear: Color._linear_Rec2020,
+		}],
+		[ColorSpace.XYZ_D50, {
+			name      : 'xyz-d50',
+			white     : 'D50',
+			toXYZ     : MatrixSquare.multIden(3n),
+			fromXYZ   : MatrixSquare.multIden(3n),
+			toLinear  : (c) => c,
+			fromLinear: (c) => c,
+		}],
+		[ColorSpace.XYZ_D65, {
+			name      : 'xyz-d65',
+			white     : 'D65',
+			toXYZ     : MatrixSquare.multIden(3n),
+			fromXYZ   : MatrixSquare.multIden(3n),
+			toLinear  : (c) => c,
+			fromLinear: (c) => c,
+		}],
+	])
+
+	/**
+	 * The categories of analogous components of each color space with three coordinates.
+	 *
+	 * A component missing in one color space is also missing in any analogous component of another space,
+	 * for example, a missing HSL-lightness is also missing in Lab.
+	 * A `null` category has no analogous components.
+	 * @see https://www.w3.org/TR/css-color-4/#interpolation-missing
+	 */
+	private static readonly _ANALOGOUS: ReadonlyMap<ColorSpace, readonly (string|null)[]> = new Map<ColorSpace, readonly (string|null)[]>([
+		[ColorSpace.HEX  , ['red'      , 'green'       , 'blue'     ]],
+		[ColorSpace.RGB  , ['red'      , 'green'       , 'blue'     ]],
+		[ColorSpace.HSV  , ['hue'      , 'colorfulness', null       ]],
+		[ColorSpace.HSL  , ['hue'      , 'colorfulness', 'lightness']],
+		[ColorSpace.HWB  , ['hue'      , null          , null       ]],
+		[ColorSpace.HSI  , ['hue'      , 'colorfulness', null       ]],
+		[ColorSpace.LAB  , ['lightness', 'opponent-a'  , 'opponent-b']],
+		[ColorSpace.LCH  , ['lightness', 'colorfulness', 'hue'      ]],
+		[ColorSpace.OKLAB, ['lightness', 'opponent-a'  , 'opponent-b']],
+		[ColorSpace.OKLCH, ['lightness', 'colorfulness', 'hue'      ]],
+		...[...Color._PREDEFINED.keys()].map((space): [ColorSpace, readonly string[]] => [space, ['red', 'green', 'blue']]),
+	])
 
 	/**
 	 * Calculate the alpha of several overlapping translucent colors.
@@ -162,18 +897,314 @@ export default class Color {
 		return new Fraction(xjs.Math.interpolateGeometric(a1.conjugate.valueOf(), a2.conjugate.valueOf(), w) ** 2).conjugate
 	}
 
+	/**
+	 * Return the Euclidean distance between two colors in OKLab, given their coordinates.
+	 * @see https://www.w3.org/TR/css-color-4/#color-difference-OK
+	 * @param   oklab1 the `[L, a, b]` coordinates of the first color
+	 * @param   oklab2 the `[L, a, b]` coordinates of the second color
+	 * @returns the color difference ΔEOK
+	 */
+	private static _deltaEOK(oklab1: Triple, oklab2: Triple): number {
+		return Math.hypot(...oklab1.map((c, i) => c - oklab2[i]))
+	}
+
+	/**
+	 * Return the CIE76 color difference between two colors, given their CIE Lab coordinates.
+	 * @see https://en.wikipedia.org/wiki/Color_difference#CIE76
+	 * @param   lab1 the `[L, a, b]` coordinates of the first color
+	 * @param   lab2 the `[L, a, b]` coordinates of the second color
+	 * @returns the color difference ΔE*ab
+	 */
+	private static _deltaE76(lab1: Triple, lab2: Triple): number {
+		return Math.hypot(...lab1.map((c, i) => c - lab2[i]))
+	}
+
+	/**
+	 * Return the CIE94 color difference between two colors, given their CIE Lab coordinates.
+	 *
+	 * Uses the weighting factors for graphic arts (`kL = 1`, `K1 = 0.045`, `K2 = 0.015`).
+	 * The first color is the reference, so the result is not symmetric.
+	 * @see https://en.wikipedia.org/wiki/Color_difference#CIE94
+	 * @param   lab1 the `[L, a, b]` coordinates of the reference color
+	 * @param   lab2 the `[L, a, b]` coordinates of the sample color
+	 * @returns the color difference ΔE*94
+	 */
+	private static _deltaE94(lab1: Triple, lab2: Triple): number {
+		const c1: number = Math.hypot(lab1[1], lab1[2])
+		const c2: number = Math.hypot(lab2[1], lab2[2])
+		const dl: number = lab1[0] - lab2[0]
+		const dc: number = c1 - c2
+		const dh_sq: number = Math.max(0, (lab1[1] - lab2[1]) ** 2 + (lab1[2] - lab2[2]) ** 2 - dc ** 2)
+		return Math.sqrt(
+			dl ** 2 +
+			(dc / (1 + 0.045 * c1)) ** 2 +
+			dh_sq / (1 + 0.015 * c1) ** 2
+		)
+	}
+
+	/**
+	 * Return the CIEDE2000 color difference between two colors, given their CIE Lab coordinates.
+	 *
+	 * Uses parametric weighting factors `kL = kC = kH = 1`.
+	 * @see http://www2.ece.rochester.edu/~gsharma/ciede2000/ciede2000noteCRNA.pdf
+	 * @param   lab1 the `[L, a, b]` coordinates of the first color
+	 * @param   lab2 the `[L, a, b]` coordinates of the second color
+	 * @returns the color difference ΔE00
+	 */
+	private static _deltaE2000(lab1: Triple, lab2: Triple): number {
+		const DEG: number = Math.PI / 180
+		const pow25_7: number = 25 ** 7
+		const [l1, a1, b1] = lab1
+		const [l2, a2, b2] = lab2
+		const c_bar: number = (Math.hypot(a1, b1) + Math.hypot(a2, b2)) / 2
+		const g: number = 0.5 * (1 - Math.sqrt(c_bar ** 7 / (c_bar ** 7 + pow25_7)))
+		const a1_p: number = (1 + g) * a1
+		const a2_p: number = (1 + g) * a2
+		const c1_p: number = Math.hypot(a1_p, b1)
+		const c2_p: number = Math.hypot(a2_p, b2)
+		const hue = (b: number, a: number): number => (a === 0 && b === 0) ? 0 : (Math.atan2(b, a) / DEG + 360) % 360
+		const h1_p: number = hue(b1, a1_p)
+		const h2_p: number = hue(b2, a2_p)
+
+		const dl_p: number = l2 - l1
+		const dc_p: number = c2_p - c1_p
+		const dh_p: number = (
+			(c1_p * c2_p === 0)              ? 0 :
+			(Math.abs(h2_p - h1_p) <= 180)   ? h2_p - h1_p :
+			(h2_p - h1_p > 180)              ? h2_p - h1_p - 360 :
+			                                   h2_p - h1_p + 360
+		)
+		const dH_p: number = 2 * Math.sqrt(c1_p * c2_p) * Math.sin(dh_p / 2 * DEG)
+
+		const l_bar_p: number = (l1 + l2) / 2
+		const c_bar_p: number = (c1_p + c2_p) / 2
+		const h_bar_p: number = (
+			(c1_p * c2_p === 0)              ? h1_p + h2_p :
+			(Math.abs(h1_p - h2_p) <= 180)   ? (h1_p + h2_p) / 2 :
+			(h1_p + h2_p < 360)              ? (h1_p + h2_p + 360) / 2 :
+			                                   (h1_p + h2_p - 360) / 2
+		)
+		const t: number = 1
+			- 0.17 * Math.cos((h_bar_p - 30) * DEG)
+			+ 0.24 * Math.cos((2 * h_bar_p) * DEG)
+			+ 0.32 * Math.cos((3 * h_bar_p + 6) * DEG)
+			- 0.20 * Math.cos((4 * h_bar_p - 63) * DEG)
+		const d_theta: number = 30 * Math.exp(-(((h_bar_p - 275) / 25) ** 2))
+		const r_c: number = 2 * Math.sqrt(c_bar_p ** 7 / (c_bar_p ** 7 + pow25_7))
+		const s_l: number = 1 + 0.015 * (l_bar_p - 50) ** 2 / Math.sqrt(20 + (l_bar_p - 50) ** 2)
+		const s_c: number = 1 + 0.045 * c_bar_p
+		const s_h: number = 1 + 0.015 * c_bar_p * t
+		const r_t: number = -Math.sin(2 * d_theta * DEG) * r_c
+		return Math.sqrt(
+			(dl_p / s_l) ** 2 +
+			(dc_p / s_c) ** 2 +
+			(dH_p / s_h) ** 2 +
+			r_t * (dc_p / s_c) * (dH_p / s_h)
+		)
+	}
+
+	/**
+	 * Return the predefined RGB color space whose gamut bounds the given color space.
+	 *
+	 * The sRGB-derived spaces (HEX, RGB, CMYK, HSV, HSL, HWB, HSI, YUV, YIQ, and YCbCr) are bounded by the sRGB gamut.
+	 * Spaces with no gamut limits (CIE XYZ, Lab, LCH, OKLab, and OKLCH) return `null`.
+	 * @param   space a color space
+	 * @returns the predefined space bounding the given space, if any
+	 */
+	private static _gamut(space: ColorSpace): ColorSpace|null {
+		return (
+			[
+				ColorSpace.HEX, ColorSpace.RGB, ColorSpace.CMYK, ColorSpace.HSV, ColorSpace.HSL, ColorSpace.HWB,
+				ColorSpace.HSI, ColorSpace.YUV, ColorSpace.YIQ, ColorSpace.YCBCR,
+			].includes(space) ? ColorSpace.SRGB :
+			[ColorSpace.XYZ_D50, ColorSpace.XYZ_D65].includes(space) ? null :
+			(Color._PREDEFINED.has(space)) ? space : null
+		)
+	}
+
+	/**
+	 * Return the index of the hue coordinate of a color space, if it has one.
+	 * @param   space a color space
+	 * @returns the index of the hue in the color’s {@link Color#_coordinates|coordinates}, else `null`
+	 */
+	private static _hueChannel(space: ColorSpace): number|null {
+		return (
+			[ColorSpace.HSV, ColorSpace.HSL, ColorSpace.HWB, ColorSpace.HSI].includes(space) ? 0 :
+			[ColorSpace.LCH, ColorSpace.OKLCH].includes(space) ? 2 : null
+		)
+	}
+
+	/**
+	 * Adjust two hues, in turns, so that interpolating linearly between them follows the given method.
+	 * @see https://www.w3.org/TR/css-color-4/#hue-interpolation
+	 * @param   h1 the first hue, in turns
+	 * @param   h2 the second hue, in turns
+	 * @param   method the hue interpolation method
+	 * @returns the adjusted hues, either of which may lie outside `[0, 1)`
+	 */
+	private static _fixupHues(h1: number, h2: number, method: HueInterpolation): [number, number] {
+		h1 = (h1 % 1 + 1) % 1
+		h2 = (h2 % 1 + 1) % 1
+		const diff: number = h2 - h1
+		return new Map<HueInterpolation, () => [number, number]>([
+			[HueInterpolation.SHORTER, () =>
+				(diff >  0.5) ? [h1 + 1, h2] :
+				(diff < -0.5) ? [h1, h2 + 1] : [h1, h2]
+			],
+			[HueInterpolation.LONGER, () =>
+				(0 < diff && diff < 0.5)     ? [h1 + 1, h2] :
+				(-0.5 < diff && diff <= 0)   ? [h1, h2 + 1] : [h1, h2]
+			],
+			[HueInterpolation.INCREASING, () => (h2 < h1) ? [h1, h2 + 1] : [h1, h2]],
+			[HueInterpolation.DECREASING, () => (h1 < h2) ? [h1 + 1, h2] : [h1, h2]],
+		]).get(method) !()
+	}
+
+	/**
+	 * Return the result of a blend mode’s mixing function, given a backdrop and source color.
+	 *
+	 * Separable modes apply to each channel independently;
+	 * non-separable modes (hue, saturation, color, and luminosity) apply to all channels together.
+	 * @see https://www.w3.org/TR/compositing-1/#blending
+	 * @param   mode the blend mode
+	 * @param   cb the `[r, g, b]` channels of the backdrop, each in `[0, 1]`
+	 * @param   cs the `[r, g, b]` channels of the source, each in `[0, 1]`
+	 * @returns the blended `[r, g, b]` channels, each in `[0, 1]`
+	 */
+	private static _blend(mode: BlendMode, cb: Triple, cs: Triple): Triple {
+		const multiply  = (b: number, s: number): number => b * s
+		const screen    = (b: number, s: number): number => b + s - b * s
+		const hardLight = (b: number, s: number): number => (s <= 0.5) ? multiply(b, 2 * s) : screen(b, 2 * s - 1)
+		const separable: ((b: number, s: number) => number)|null = new Map<BlendMode, (b: number, s: number) => number>([
+			[BlendMode.NORMAL     , (_b, s) => s],
+			[BlendMode.MULTIPLY   , multiply],
+			[BlendMode.SCREEN     , screen],
+			[BlendMode.OVERLAY    , (b, s) => hardLight(s, b)],
+			[BlendMode.DARKEN     , Math.min],
+			[BlendMode.LIGHTEN    , Math.max],
+			[BlendMode.COLOR_DODGE, (b, s) => (b === 0) ? 0 : (s === 1) ? 1 : Math.min(1, b / (1 - s))],
+			[BlendMode.COLOR_BURN , (b, s) => (b === 1) ? 1 : (s === 0) ? 0 : 1 - Math.min(1, (1 - b) / s)],
+			[BlendMode.HARD_LIGHT , hardLight],
+			[BlendMode.SOFT_LIGHT , (b, s) => (s <= 0.5) ?
+				b - (1 - 2 * s) * b * (1 - b) :
+				b + (2 * s - 1) * (((b <= 0.25) ? ((16 * b - 12) * b + 4) * b : Math.sqrt(b)) - b)
+			],
+			[BlendMode.DIFFERENCE , (b, s) => Math.abs(b - s)],
+			[BlendMode.EXCLUSION  , (b, s) => b + s - 2 * b * s],
+		]).get(mode) || null
+		if (separable) return cb.map((b, i) => separable(b, cs[i])) as Triple
+
+		const lum = (c: Triple): number => 0.3 * c[0] + 0.59 * c[1] + 0.11 * c[2]
+		const sat = (c: Triple): number => Math.max(...c) - Math.min(...c)
+		const setLum = (c: Triple, l: number): Triple => {
+			const adjusted: Triple = c.map((x) => x + l - lum(c)) as Triple
+			const [lightness, min, max]: number[] = [lum(adjusted), Math.min(...adjusted), Math.max(...adjusted)]
+			return adjusted.map((x) =>
+				(min < 0) ? lightness + (x - lightness) * lightness / (lightness - min) :
+				(max > 1) ? lightness + (x - lightness) * (1 - lightness) / (max - lightness) : x
+			) as Triple
+		}
+		const setSat = (c: Triple, s: number): Triple => {
+			const [min, max]: number[] = [Math.min(...c), Math.max(...c)]
+			return c.map((x) => (max > min) ? (x - min) * s / (max - min) : 0) as Triple
+		}
+		return new Map<BlendMode, () => Triple>([
+			[BlendMode.HUE       , () => setLum(setSat(cs, sat(cb)), lum(cb))],
+			[BlendMode.SATURATION, () => setLum(setSat(cb, sat(cs)), lum(cb))],
+			[BlendMode.COLOR     , () => setLum(cs, lum(cb))],
+			[BlendMode.LUMINOSITY, () => setLum(cb, lum(cs))],
+		]).get(mode) !()
+	}
+
+	/**
+	 * Split a string at each occurrence of a separator that is not nested within parentheses.
+	 * @param   str the string to split
+	 * @param   separator the separating character
+	 * @returns the substrings between top-level separators
+	 */
+	private static _splitTopLevel(str: string, separator: string): string[] {
+		const returned: string[] = ['']
+		let depth: number = 0
+		;[...str].forEach((char) => {
+			if (char === '(') depth++
+			if (char === ')') depth--
+			if (char === separator && depth === 0) returned.push('')
+			else returned[returned.length - 1] += char
+		})
+		return returned
+	}
+
+	/**
+	 * Evaluate a CSS math expression, such as a channel of a relative color.
+	 *
+	 * Supports numbers, percentages, angles, keywords, the constants `e` and `pi`,
+	 * the operators `+`, `-`, `*`, and `/`, parentheses, and nested `calc()` functions.
+	 * Percentages are resolved against the given reference, and angles are converted to degrees.
+	 * @see https://www.w3.org/TR/css-values-4/#calc-func
+	 * @param   expr the expression to evaluate, e.g. `calc(l + 20%)`
+	 * @param   keywords the values of the keywords allowed in the expression
+	 * @param   percent_ref the value of `100%`, or `null` if percentages are not allowed
+	 * @returns the value of the expression
+	 * @throws  {RangeError} if the expression is invalid
+	 */
+	private static _calc(expr: string, keywords: ReadonlyMap<string, number>, percent_ref: number|null): number {
+		const tokens: string[] = expr.match(/(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?(?:%|deg|grad|rad|turn)?|[a-z][a-z\d-]*|\S/gi) || []
+		const constants: ReadonlyMap<string, number> = new Map<string, number>([...keywords, ['e', Math.E], ['pi', Math.PI]])
+		let index: number = 0
+		function fail(): never {
+			throw new RangeError(`Invalid math expression: '${expr}'.`)
+		}
+		function sum(): number {
+			let value: number = product()
+			while (tokens[index] === '+' || tokens[index] === '-') {
+				value = (tokens[index++] === '+') ? value + product() : value - product()
+			}
+			return value
+		}
+		function product(): number {
+			let value: number = factor()
+			while (tokens[index] === '*' || tokens[index] === '/') {
+				value = (tokens[index++] === '*') ? value * factor() : value / factor()
+			}
+			return value
+		}
+		function factor(): number {
+			const token: string|undefined = tokens[index++]
+			if (token === void 0) return fail()
+			if (token === '+') return  factor()
+			if (token === '-') return -factor()
+			if (token === '(' || token.toLowerCase() === 'calc' && tokens[index++] === '(') {
+				const value: number = sum()
+				if (tokens[index++] !== ')') fail()
+				return value
+			}
+			if (/^[\d.]/.test(token)) return (
+				(Percentage.REGEXP.test(token)) ? (percent_ref !== null) ? Percentage.fromString(token) * percent_ref : fail() :
+				(Angle.REGEXP.test(token)) ? new Angle(token).convert(AngleUnit.DEG) :
+				(xjs.Number.REGEXP.test(token)) ? +token : fail()
+			)
+			const constant: number|undefined = constants.get(token.toLowerCase())
+			return (constant !== void 0) ? constant : fail()
+		}
+		const returned: number = sum()
+		if (index !== tokens.length || Number.isNaN(returned)) fail()
+		return returned
+	}
+
 	/**
 	 * Transform an sRGB channel value (gamma-corrected) to a linear value.
 	 *
 	 * Approximately, the square of the value: `(x) => x * x`.
+	 * Values outside `[0, 1]` (of extended sRGB) are reflected about 0, preserving their sign.
+	 * Also used for Display P3, which shares sRGB’s transfer function.
 	 * @see https://www.w3.org/Graphics/Color/sRGB.html
 	 * @see https://en.wikipedia.org/wiki/SRGB#The_reverse_transformation
 	 * @param   c_srgb an rgb component of a color
 	 * @returns the transformed linear value
 	 */
-	private static _sRGB_Linear(c_srgb: Fraction): Fraction {
-		let c: number = c_srgb.valueOf()
-		return new Fraction((c <= 0.04045) ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4)
+	private static _sRGB_Linear(c_srgb: number): number {
+		let c: number = Math.abs(c_srgb)
+		return Math.sign(c_srgb) * ((c <= 0.04045) ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4)
 	}
 	/**
 	 * Return the inverse of {@link Color._sRGB_Linear}.
@@ -184,9 +1215,263 @@ export default class Color {
 	 * @param   c_lin a perceived luminance (linear) of a color’s rgb component
 	 * @returns the transformed sRGB value
 	 */
-	private static _linear_sRGB(c_lin: Fraction): Fraction {
-		let c: number = c_lin.valueOf()
-		return new Fraction((c <= 0.0031308) ? c * 12.92 : 1.055 * c ** (1 / 2.4) - 0.055)
+	private static _linear_sRGB(c_lin: number): number {
+		let c: number = Math.abs(c_lin)
+		return Math.sign(c_lin) * ((c <= 0.0031308) ? c * 12.92 : 1.055 * c ** (1 / 2.4) - 0.055)
+	}
+	/**
+	 * Transform an A98 RGB channel value (gamma-corrected) to a linear value.
+	 * @see https://www.w3.org/TR/css-color-4/#predefined-a98-rgb
+	 * @param   c_a98 an rgb component of a color in A98 RGB
+	 * @returns the transformed linear value
+	 */
+	private static _A98_Linear(c_a98: number): number {
+		return Math.sign(c_a98) * Math.abs(c_a98) ** (563 / 256)
+	}
+	/**
+	 * Return the inverse of {@link Color._A98_Linear}.
+	 * @param   c_lin a linear rgb component of a color in A98 RGB
+	 * @returns the transformed A98 RGB value
+	 */
+	private static _linear_A98(c_lin: number): number {
+		return Math.sign(c_lin) * Math.abs(c_lin) ** (256 / 563)
+	}
+	/**
+	 * Transform a ProPhoto RGB channel value (gamma-corrected) to a linear value.
+	 * @see https://www.w3.org/TR/css-color-4/#predefined-prophoto-rgb
+	 * @param   c_prophoto an rgb component of a color in ProPhoto RGB
+	 * @returns the transformed linear value
+	 */
+	private static _ProPhoto_Linear(c_prophoto: number): number {
+		let c: number = Math.abs(c_prophoto)
+		return Math.sign(c_prophoto) * ((c <= 16 / 512) ? c / 16 : c ** 1.8)
+	}
+	/**
+	 * Return the inverse of {@link Color._ProPhoto_Linear}.
+	 * @param   c_lin a linear rgb component of a color in ProPhoto RGB
+	 * @returns the transformed ProPhoto RGB value
+	 */
+	private static _linear_ProPhoto(c_lin: number): number {
+		let c: number = Math.abs(c_lin)
+		return Math.sign(c_lin) * ((c < 1 / 512) ? c * 16 : c ** (1 / 1.8))
+	}
+	/**
+	 * Transform a Rec. 2020 channel value (gamma-corrected) to a linear value.
+	 * @see https://www.w3.org/TR/css-color-4/#predefined-rec2020
+	 * @param   c_2020 an rgb component of a color in Rec. 2020
+	 * @returns the transformed linear value
+	 */
+	private static _Rec2020_Linear(c_2020: number): number {
+		const alpha: number = 1.09929682680944
+		const beta : number = 0.018053968510807
+		let c: number = Math.abs(c_2020)
+		return Math.sign(c_2020) * ((c < beta * 4.5) ? c / 4.5 : ((c + alpha - 1) / alpha) ** (1 / 0.45))
+	}
+	/**
+	 * Return the inverse of {@link Color._Rec2020_Linear}.
+	 * @param   c_lin a linear rgb component of a color in Rec. 2020
+	 * @returns the transformed Rec. 2020 value
+	 */
+	private static _linear_Rec2020(c_lin: number): number {
+		const alpha: number = 1.09929682680944
+		const beta : number = 0.018053968510807
+		let c: number = Math.abs(c_lin)
+		return Math.sign(c_lin) * ((c > beta) ? alpha * c ** 0.45 - (alpha - 1) : c * 4.5)
+	}
+
+	/**
+	 * Multiply a 3×3 matrix by a column of three values.
+	 * @param   matrix the transformation matrix
+	 * @param   v      the values to transform
+	 * @returns the transformed values
+	 */
+	private static _transform(matrix: MatrixSquare, v: Triple): Triple {
+		const vector: Vector = new Vector(v)
+		return [0n, 1n, 2n].map((i) => matrix.getRow(i).dot(vector)) as Triple
+	}
+
+	/**
+	 * Convert CIE XYZ (D50) tristimulus values to CIE Lab coordinates.
+	 * @see https://www.w3.org/TR/css-color-4/#color-conversion-code
+	 * @param   xyz the XYZ values, relative to a D50 white point
+	 * @returns the corresponding `[L, a, b]` coordinates
+	 */
+	private static _XYZ_Lab(xyz: Triple): Triple {
+		const epsilon: number = 216 / 24389
+		const kappa  : number = 24389 / 27
+		const [fx, fy, fz]: number[] = xyz.map((c, i) => c / Color._WHITE_D50[i]).map((c) =>
+			(c > epsilon) ? Math.cbrt(c) : (kappa * c + 16) / 116
+		)
+		return [
+			116 * fy - 16,
+			500 * (fx - fy),
+			200 * (fy - fz),
+		]
+	}
+	/**
+	 * Return the inverse of {@link Color._XYZ_Lab}.
+	 * @see https://www.w3.org/TR/css-color-4/#color-conversion-code
+	 * @param   lab the `[L, a, b]` coordinates
+	 * @returns the corresponding XYZ values, relative to a D50 white point
+	 */
+	private static _Lab_XYZ(lab: Triple): Triple {
+		const epsilon: number = 216 / 24389
+		const kappa  : number = 24389 / 27
+		const fy: number = (lab[0] + 16) / 116
+		const fx: number = lab[1] / 500 + fy
+		const fz: number = fy - lab[2] / 200
+		return [
+			(fx ** 3 > epsilon) ? fx ** 3 : (116 * fx - 16) / kappa,
+			(lab[0] > kappa * epsilon) ? fy ** 3 : lab[0] / kappa,
+			(fz ** 3 > epsilon) ? fz ** 3 : (116 * fz - 16) / kappa,
+		].map((c, i) => c * Color._WHITE_D50[i]) as Triple
+	}
+
+	/**
+	 * Convert CIE XYZ (D65) tristimulus values to OKLab coordinates.
+	 * @see https://bottosson.github.io/posts/oklab/
+	 * @param   xyz the XYZ values, relative to a D65 white point
+	 * @returns the corresponding `[L, a, b]` coordinates
+	 */
+	private static _XYZ_OKLab(xyz: Triple): Triple {
+		return Color._transform(Color._LMS_OKLAB, Color._transform(Color._XYZ_LMS, xyz).map((c) => Math.cbrt(c)) as Triple)
+	}
+	/**
+	 * Return the inverse of {@link Color._XYZ_OKLab}.
+	 * @param   oklab the `[L, a, b]` coordinates
+	 * @returns the corresponding XYZ values, relative to a D65 white point
+	 */
+	private static _OKLab_XYZ(oklab: Triple): Triple {
+		return Color._transform(Color._LMS_XYZ, Color._transform(Color._OKLAB_LMS, oklab).map((c) => c ** 3) as Triple)
+	}
+
+	/**
+	 * Convert values in a predefined color space to CIE XYZ (D65) tristimulus values.
+	 * @param   space the predefined color space
+	 * @param   values the encoded channel values in that space
+	 * @returns the corresponding XYZ values, relative to a D65 white point
+	 */
+	private static _predefined_XYZ(space: PredefinedSpace, values: Triple): Triple {
+		const xyz: Triple = Color._transform(space.toXYZ, values.map((c) => space.toLinear(c)) as Triple)
+		return (space.white === 'D50') ? Color._transform(Color._D50_D65, xyz) : xyz
+	}
+	/**
+	 * Return the inverse of {@link Color._predefined_XYZ}.
+	 * @param   space the predefined color space
+	 * @param   xyz the XYZ values, relative to a D65 white point
+	 * @returns the corresponding encoded channel values in that space
+	 */
+	private static _XYZ_predefined(space: PredefinedSpace, xyz: Triple): Triple {
+		const adapted: Triple = (space.white === 'D50') ? Color._transform(Color._D65_D50, xyz) : xyz
+		return Color._transform(space.fromXYZ, adapted).map((c) => space.fromLinear(c)) as Triple
+	}
+
+	/**
+	 * Return a new Color object, given linear-light sRGB values.
+	 *
+	 * Values outside the sRGB gamut are preserved in extended sRGB.
+	 * @param   rgb_lin the linear-light red, green, and blue values
+	 * @param   alpha   the alpha channel of the color
+	 * @returns a new Color object with the gamma-corrected channels
+	 */
+	private static _fromLinearSRGB(rgb_lin: Triple, alpha: Fraction): Color {
+		return new Color(rgb_lin.map((c) => Color._linear_sRGB(c)) as Triple, alpha)
+	}
+
+	/**
+	 * Return a new Color object, given its coordinates in a color space.
+	 *
+	 * This is the inverse of {@link Color#_coordinates}.
+	 * Hues are given in turns, and the channels of HSV, HSL, HWB, and HSI are clamped to `[0, 1]`.
+	 * @param   space a color space with three coordinates (any space except CMYK)
+	 * @param   coords the three coordinates of the color in the given space
+	 * @param   alpha the alpha channel of the color
+	 * @returns a new Color object with the given coordinates
+	 */
+	private static _fromCoordinates(space: ColorSpace, coords: Triple, alpha: Fraction): Color {
+		const [c1, c2, c3]: Triple = coords
+		const hue: Angle = new Angle((c1 % 1 + 1) % 1)
+		const [p2, p3]: number[] = [c2, c3].map((c) => xjs.Math.clamp(0, c, 1))
+		return (new Map<ColorSpace, () => Color>([
+			[ColorSpace.HEX  , () => new Color(coords, alpha)],
+			[ColorSpace.RGB  , () => new Color(coords, alpha)],
+			[ColorSpace.HSV  , () => Color.fromHSV(hue, p2, p3, alpha)],
+			[ColorSpace.HSL  , () => Color.fromHSL(hue, p2, p3, alpha)],
+			[ColorSpace.HWB  , () => Color.fromHWB(hue, p2 / Math.max(1, p2 + p3), p3 / Math.max(1, p2 + p3), alpha)],
+			[ColorSpace.LAB  , () => Color.fromLab  (c1, c2, c3, alpha)],
+			[ColorSpace.LCH  , () => Color.fromLCH  (c1, c2, new Angle((c3 % 1 + 1) % 1), alpha)],
+			[ColorSpace.OKLAB, () => Color.fromOKLab(c1, c2, c3, alpha)],
+			[ColorSpace.OKLCH, () => Color.fromOKLCH(c1, c2, new Angle((c3 % 1 + 1) % 1), alpha)],
+			[ColorSpace.HSI  , () => Color.fromHSI(hue, p2, p3, alpha)],
+			[ColorSpace.YUV  , () => Color.fromYUV  (c1, c2, c3, alpha)],
+			[ColorSpace.YIQ  , () => Color.fromYIQ  (c1, c2, c3, alpha)],
+			[ColorSpace.YCBCR, () => Color.fromYCbCr(c1, c2, c3, alpha)],
+		]).get(space) || (() => Color.fromPredefined(space, c1, c2, c3, alpha))
+		)()
+	}
+
+	/**
+	 * Return whether a value has the shape of the JSON representation of a color.
+	 * @param   value any value
+	 * @returns does the value have a string space, three numeric or `null` channels, and a numeric or `null` alpha?
+	 */
+	private static _isColorJSON(value: unknown): value is ColorJSON {
+		if (typeof value !== 'object' || value === null) return false
+		const { space, channels, alpha } = value as Record<string, unknown>
+		const numeric = (n: unknown): boolean => n === null || typeof n === 'number' && Number.isFinite(n)
+		return typeof space === 'string' && Array.isArray(channels) && channels.length === 3 && channels.every(numeric) && numeric(alpha)
+	}
+
+	/**
+	 * Return a copy of a color, marking some of its components as missing (CSS `none`).
+	 * @param   color the color to copy
+	 * @param   space the color space in which the components are missing
+	 * @param   missing whether each of the three coordinates, then alpha, is missing
+	 * @returns a new Color object with the given missing components, or the same color if none are missing
+	 */
+	private static _withMissing(color: Color, space: ColorSpace, missing: readonly boolean[]): Color {
+		if (!missing.includes(true)) return color
+		return new Color(color._RGB, color.alpha, { space, channels: [...missing] })
+	}
+
+	/**
+	 * Linearly interpolate a table of values sampled at every 10nm from 380nm to 780nm.
+	 * @param   table the table of values, one per 10nm
+	 * @param   nm a wavelength, in nanometers
+	 * @returns the interpolated values at the given wavelength, or zeros outside the tabulated range
+	 */
+	private static _interpolateSpectrum(table: readonly (readonly number[])[], nm: number): number[] {
+		if (nm < 380 || 780 < nm) return table[0].map(() => 0)
+		const i: number = Math.min(Math.floor((nm - 380) / 10), table.length - 2)
+		return table[i].map((value, j) => xjs.Math.interpolateArithmetic(value, table[i + 1][j], (nm - 380) / 10 - i))
+	}
+
+	/**
+	 * Return the relative spectral power of a standard illuminant at a given wavelength.
+	 * @param   illuminant the illuminant
+	 * @param   nm a wavelength, in nanometers
+	 * @returns the relative power, normalized to 100 at 560nm (1 for Illuminant E)
+	 */
+	private static _illuminantPower(illuminant: Illuminant, nm: number): number {
+		return new Map<Illuminant, () => number>([
+			[Illuminant.D65, () => Color._interpolateSpectrum(Color._D65_SPD.map((p) => [p]), nm)[0]],
+			[Illuminant.A  , () => 100 * (560 / nm) ** 5 * Math.expm1(1.435e7 / (2848 * 560)) / Math.expm1(1.435e7 / (2848 * nm))],
+			[Illuminant.E  , () => 1],
+		]).get(illuminant) !()
+	}
+
+	/**
+	 * Hash a string to an unsigned 32-bit integer, using the FNV-1a algorithm.
+	 * @see http://www.isthe.com/chongo/tech/comp/fnv/
+	 * @param   str the string to hash
+	 * @returns the hash of the string’s UTF-16 code units
+	 */
+	private static _hash(str: string): number {
+		let hash: number = 0x811c9dc5
+		for (let i = 0; i < str.length; i++) {
+			hash = Math.imul(hash ^ str.charCodeAt(i), 0x01000193)
+		}
+		return hash >>> 0
 	}
 
 	/**
@@ -336,6 +1621,393 @@ export default class Color {
 		 */
 	}
 
+	/**
+	 * Return a new Color object, given hue, saturation, and intensity in HSI-space.
+	 *
+	 * The HSI-hue is the same as the HSV-hue.
+	 * Since not every combination of HSI channels lies within the sRGB gamut, the RGB channels are clipped.
+	 * @see https://en.wikipedia.org/wiki/HSL_and_HSV#HSI_to_RGB
+	 * @param   hue the HSI-hue channel of this color
+	 * @param   sat the HSI-sat channel of this color
+	 * @param   int the HSI-int channel of this color
+	 * @param   alpha the alpha channel of this color
+	 * @returns a new Color object with hsia(hue, sat, int, alpha)
+	 */
+	static fromHSI(hue: Angle|number = 0, sat: Fraction|number = 0, int: Fraction|number = 0, alpha: Fraction|number = 1): Color {
+		return (hue instanceof Angle && sat instanceof Fraction && int instanceof Fraction && alpha instanceof Fraction) ? (() => {
+			const [s, i]: number[] = [sat, int].map((p) => p.valueOf())
+			const sector: number = hue.valueOf() * 6
+			const f     : number = 1 - Math.abs(sector % 2 - 1) // position of the middle channel between the minimum and maximum
+			const min   : number = i * (1 - s)
+			const chroma: number = 3 * i * s / (1 + f)
+			const [max, mid]: number[] = [min + chroma, min + chroma * f]
+			const [red, green, blue]: number[] = [
+				[max, mid, min],
+				[mid, max, min],
+				[min, max, mid],
+				[min, mid, max],
+				[mid, min, max],
+				[max, min, mid],
+			][Math.floor(sector) % 6]
+			return new Color(
+				new Fraction(Math.min(red  , 1)),
+				new Fraction(Math.min(green, 1)),
+				new Fraction(Math.min(blue , 1)),
+				alpha
+			)
+		})() : Color.fromHSI(
+			new Angle(hue),
+			new Fraction(sat),
+			new Fraction(int),
+			new Fraction(alpha)
+		)
+	}
+
+	/**
+	 * Return a new Color object, given lightness, a-axis, and b-axis in CIE Lab-space.
+	 *
+	 * Lab coordinates are relative to a D50 white point, as specified in CSS Color 4.
+	 * Lightness is clamped to the interval `[0, 100]`.
+	 * Colors outside the sRGB gamut are preserved; see {@link Color.red}.
+	 * @see https://www.w3.org/TR/css-color-4/#specifying-lab-lch
+	 * @param   lightness the Lab-lightness channel of this color, a number 0–100
+	 * @param   a         the Lab-a channel of this color (green–red axis), typically within ±125
+	 * @param   b         the Lab-b channel of this color (blue–yellow axis), typically within ±125
+	 * @param   alpha     the alpha channel of this color
+	 * @returns a new Color object with lab(lightness, a, b, alpha)
+	 */
+	static fromLab(lightness: number = 0, a: number = 0, b: number = 0, alpha: Fraction|number = 1): Color {
+		const xyz_d50: Triple = Color._Lab_XYZ([xjs.Math.clamp(0, lightness, 100), a, b])
+		return Color._fromLinearSRGB(
+			Color._transform(Color._XYZ_LINEAR_SRGB, Color._transform(Color._D50_D65, xyz_d50)),
+			(alpha instanceof Fraction) ? alpha : new Fraction(alpha),
+		)
+	}
+
+	/**
+	 * Return a new Color object, given lightness, chroma, and hue in CIE LCH-space.
+	 *
+	 * LCH is the cylindrical form of {@link Color.fromLab|Lab}.
+	 * Lightness is clamped to the interval `[0, 100]`, and chroma is clamped to be non-negative.
+	 * @see https://www.w3.org/TR/css-color-4/#specifying-lab-lch
+	 * @param   lightness the LCH-lightness channel of this color, a number 0–100
+	 * @param   chroma    the LCH-chroma    channel of this color, typically within 0–150
+	 * @param   hue       the LCH-hue       channel of this color
+	 * @param   alpha     the alpha         channel of this color
+	 * @returns a new Color object with lch(lightness, chroma, hue, alpha)
+	 */
+	static fromLCH(lightness: number = 0, chroma: number = 0, hue: Angle|number = 0, alpha: Fraction|number = 1): Color {
+		return (hue instanceof Angle) ? (() => {
+			const c: number = Math.max(0, chroma)
+			return Color.fromLab(lightness, c * hue.cos, c * hue.sin, alpha)
+		})() : Color.fromLCH(lightness, chroma, new Angle(hue), alpha)
+	}
+
+	/**
+	 * Return a new Color object, given lightness, a-axis, and b-axis in OKLab-space.
+	 *
+	 * OKLab is a perceptually uniform color space relative to a D65 white point.
+	 * Lightness is clamped to the interval `[0, 1]`.
+	 * Colors outside the sRGB gamut are preserved; see {@link Color.red}.
+	 * @see https://www.w3.org/TR/css-color-4/#specifying-oklab-oklch
+	 * @param   lightness the OKLab-lightness channel of this color, a number 0–1
+	 * @param   a         the OKLab-a channel of this color (green–red axis), typically within ±0.4
+	 * @param   b         the OKLab-b channel of this color (blue–yellow axis), typically within ±0.4
+	 * @param   alpha     the alpha channel of this color
+	 * @returns a new Color object with oklab(lightness, a, b, alpha)
+	 */
+	static fromOKLab(lightness: number = 0, a: number = 0, b: number = 0, alpha: Fraction|number = 1): Color {
+		return Color._fromLinearSRGB(
+			Color._transform(Color._XYZ_LINEAR_SRGB, Color._OKLab_XYZ([xjs.Math.clamp(0, lightness, 1), a, b])),
+			(alpha instanceof Fraction) ? alpha : new Fraction(alpha),
+		)
+	}
+
+	/**
+	 * Return a new Color object, given lightness, chroma, and hue in OKLCH-space.
+	 *
+	 * OKLCH is the cylindrical form of {@link Color.fromOKLab|OKLab}.
+	 * Lightness is clamped to the interval `[0, 1]`, and chroma is clamped to be non-negative.
+	 * @see https://www.w3.org/TR/css-color-4/#specifying-oklab-oklch
+	 * @param   lightness the OKLCH-lightness channel of this color, a number 0–1
+	 * @param   chroma    the OKLCH-chroma    channel of this color, typically within 0–0.4
+	 * @param   hue       the OKLCH-hue       channel of this color
+	 * @param   alpha     the alpha           channel of this color
+	 * @returns a new Color object with oklch(lightness, chroma, hue, alpha)
+	 */
+	static fromOKLCH(lightness: number = 0, chroma: number = 0, hue: Angle|number = 0, alpha: Fraction|number = 1): Color {
+		return (hue instanceof Angle) ? (() => {
+			const c: number = Math.max(0, chroma)
+			return Color.fromOKLab(lightness, c * hue.cos, c * hue.sin, alpha)
+		})() : Color.fromOKLCH(lightness, chroma, new Angle(hue), alpha)
+	}
+
+	/**
+	 * Return a new Color object, given CIE XYZ tristimulus values.
+	 *
+	 * Equivalent to {@link Color.fromPredefined} with {@link ColorSpace.XYZ_D50} or {@link ColorSpace.XYZ_D65}.
+	 * @param   x     the X tristimulus value, where the white point has `Y = 1`
+	 * @param   y     the Y tristimulus value (luminance)
+	 * @param   z     the Z tristimulus value
+	 * @param   alpha the alpha channel of this color
+	 * @param   white the reference white point of the values
+	 * @returns a new Color object with color(xyz-d65 x y z / alpha), or color(xyz-d50 x y z / alpha)
+	 */
+	static fromXYZ(x: number = 0, y: number = 0, z: number = 0, alpha: Fraction|number = 1, white: 'D50'|'D65' = 'D65'): Color {
+		return Color.fromPredefined((white === 'D50') ? ColorSpace.XYZ_D50 : ColorSpace.XYZ_D65, x, y, z, alpha)
+	}
+
+	/**
+	 * Return a new Color object, given luma and chrominance in analog YUV-space, as specified by ITU-R BT.601.
+	 *
+	 * The luma is a number 0–1, U is a number −0.436–0.436, and V is a number −0.615–0.615.
+	 * Channels are converted to and from gamma-encoded sRGB;
+	 * colors outside the sRGB gamut are preserved in extended sRGB.
+	 * @see https://en.wikipedia.org/wiki/Y%E2%80%B2UV
+	 * @param   luma  the YUV-luma channel of this color
+	 * @param   u     the YUV-u    channel of this color
+	 * @param   v     the YUV-v    channel of this color
+	 * @param   alpha the alpha    channel of this color
+	 * @returns a new Color object with yuv(luma u v / alpha)
+	 */
+	static fromYUV(luma: number = 0, u: number = 0, v: number = 0, alpha: Fraction|number = 1): Color {
+		return new Color(Color._transform(Color._YUV_RGB, [luma, u, v]), alpha)
+	}
+
+	/**
+	 * Return a new Color object, given luma, in-phase, and quadrature in YIQ-space, as used by NTSC.
+	 *
+	 * The luma is a number 0–1, I is a number −0.5957–0.5957, and Q is a number −0.5226–0.5226.
+	 * Channels are converted to and from gamma-encoded sRGB;
+	 * colors outside the sRGB gamut are preserved in extended sRGB.
+	 * @see https://en.wikipedia.org/wiki/YIQ
+	 * @param   luma  the YIQ-luma channel of this color
+	 * @param   i     the YIQ-i    channel of this color
+	 * @param   q     the YIQ-q    channel of this color
+	 * @param   alpha the alpha    channel of this color
+	 * @returns a new Color object with yiq(luma i q / alpha)
+	 */
+	static fromYIQ(luma: number = 0, i: number = 0, q: number = 0, alpha: Fraction|number = 1): Color {
+		return new Color(Color._transform(Color._YIQ_RGB, [luma, i, q]), alpha)
+	}
+
+	/**
+	 * Return a new Color object, given luma and chroma in 8-bit digital YCbCr-space.
+	 *
+	 * In full range (as in JPEG), each channel is a number 0–255, and the chroma channels are centered at 128.
+	 * In limited (“studio”) range, the luma is a number 16–235 and the chroma channels are numbers 16–240.
+	 * The BT.601 and BT.709 standards are encoded from gamma-encoded sRGB, and BT.2020 from Rec. 2020;
+	 * colors outside those gamuts are preserved.
+	 * @see https://en.wikipedia.org/wiki/YCbCr
+	 * @param   luma     the YCbCr-luma channel of this color
+	 * @param   cb       the YCbCr-cb   channel of this color
+	 * @param   cr       the YCbCr-cr   channel of this color
+	 * @param   alpha    the alpha      channel of this color
+	 * @param   standard the standard of luma coefficients
+	 * @param   limited  are the channels in limited range, rather than full range?
+	 * @returns a new Color object with ycbcr(luma cb cr / alpha)
+	 */
+	static fromYCbCr(luma: number = 0, cb: number = 128, cr: number = 128, alpha: Fraction|number = 1, standard: YCbCrStandard = YCbCrStandard.BT601, limited: boolean = false): Color {
+		const [kr, kb]: readonly [number, number] = Color._YCBCR.get(standard) !
+		const [y, pb, pr]: Triple = (limited) ?
+			[(luma - 16) / 219, (cb - 128) / 224, (cr - 128) / 224] :
+			[ luma       / 255, (cb - 128) / 255, (cr - 128) / 255]
+		const red  : number = y + 2 * (1 - kr) * pr
+		const blue : number = y + 2 * (1 - kb) * pb
+		const green: number = (y - kr * red - kb * blue) / (1 - kr - kb)
+		return Color.fromPredefined((standard === YCbCrStandard.BT2020) ? ColorSpace.REC2020 : ColorSpace.SRGB, red, green, blue, alpha)
+	}
+
+	/**
+	 * Return a new Color object, given a correlated color temperature in kelvins.
+	 *
+	 * By default, the color is that of a blackbody (Planckian) radiator at the given temperature,
+	 * approximated by the cubic spline of Kim et al., valid from 1667K to 25000K.
+	 * Set `daylight = true` to use the CIE daylight locus instead, valid from 4000K to 25000K;
+	 * for example, 6504K on the daylight locus is the D65 white point.
+	 * The color is scaled to its brightest value within the sRGB gamut, and clipped to that gamut.
+	 * @see https://en.wikipedia.org/wiki/Planckian_locus#Approximation
+	 * @see https://en.wikipedia.org/wiki/Standard_illuminant#Computation
+	 * @param   k the color temperature, in kelvins
+	 * @param   daylight should the CIE daylight locus be used instead of the Planckian locus?
+	 * @param   alpha the alpha channel of this color
+	 * @returns a new Color object with the chromaticity of the given color temperature
+	 * @throws  {RangeError} if the temperature is outside the valid range
+	 */
+	static fromKelvin(k: number, daylight: boolean = false, alpha: Fraction|number = 1): Color {
+		if (k < ((daylight) ? 4000 : 1667) || 25000 < k) throw new RangeError(`Color temperature ${k}K is out of range.`)
+		const [k3, k2, k1]: number[] = [1e9 / k ** 3, 1e6 / k ** 2, 1e3 / k]
+		const x: number = (daylight) ?
+			(k <= 7000) ?
+				-4.6070    * k3 + 2.9678    * k2 + 0.09911   * k1 + 0.244063 :
+				-2.0064    * k3 + 1.9018    * k2 + 0.24748   * k1 + 0.237040 :
+			(k <= 4000) ?
+				-0.2661239 * k3 - 0.2343589 * k2 + 0.8776956 * k1 + 0.179910 :
+				-3.0258469 * k3 + 2.1070379 * k2 + 0.2226347 * k1 + 0.240390
+		const y: number = (daylight) ?
+			-3.000 * x ** 2 + 2.870 * x - 0.275 :
+			(k <= 2222) ? -1.1063814 * x ** 3 - 1.34811020 * x ** 2 + 2.18555832 * x - 0.20219683 :
+			(k <= 4000) ? -0.9549476 * x ** 3 - 1.37418593 * x ** 2 + 2.09137015 * x - 0.16748867 :
+			              +3.0817580 * x ** 3 - 5.87338670 * x ** 2 + 3.75112997 * x - 0.37001483
+		const rgb_lin: Triple = Color._transform(Color._XYZ_LINEAR_SRGB, [x / y, 1, (1 - x - y) / y])
+		const max: number = Math.max(...rgb_lin)
+		return Color._fromLinearSRGB(
+			rgb_lin.map((c) => xjs.Math.clamp(0, c / max, 1)) as Triple,
+			(alpha instanceof Fraction) ? alpha : new Fraction(alpha),
+		)
+	}
+
+	/**
+	 * Return a new Color object, given a wavelength of visible light.
+	 *
+	 * The chromaticity is that of monochromatic light of the given wavelength, under the CIE 1931 standard observer.
+	 * Since spectral colors lie outside the sRGB gamut, negative linear channels are clipped to 0,
+	 * and the color is then scaled to its brightest value within the gamut;
+	 * thus the dimness of wavelengths near the ends of the visible spectrum is not represented.
+	 * To account for brightness, use {@link Color.fromSpectrum}.
+	 * @param   nm a wavelength, in nanometers, from 380 to 780
+	 * @param   alpha the alpha channel of this color
+	 * @returns a new Color object with the hue of the given wavelength
+	 * @throws  {RangeError} if the wavelength is outside the visible range
+	 */
+	static fromWavelength(nm: number, alpha: Fraction|number = 1): Color {
+		if (!(380 <= nm && nm <= 780)) throw new RangeError(`Wavelength ${nm}nm is out of the visible range.`)
+		const rgb_lin: Triple = Color._transform(Color._XYZ_LINEAR_SRGB, Color._interpolateSpectrum(Color._CIE_1931, nm) as Triple)
+		const max: number = Math.max(...rgb_lin)
+		return Color._fromLinearSRGB(
+			rgb_lin.map((c) => xjs.Math.clamp(0, c / max, 1)) as Triple,
+			(alpha instanceof Fraction) ? alpha : new Fraction(alpha),
+		)
+	}
+
+	/**
+	 * Return a new Color object, given a sampled spectrum of an object, viewed under a standard illuminant.
+	 *
+	 * The samples are spectral reflectance (or transmittance) factors, typically within `[0, 1]`,
+	 * at evenly spaced wavelengths. They are weighted by the illuminant’s spectral power distribution,
+	 * and integrated against the color matching functions of the CIE 1931 standard observer
+	 * (linearly interpolated between its tabulated values), to give CIE XYZ tristimulus values,
+	 * normalized so that a perfect reflector (all samples 1) has luminance `Y = 1`.
+	 * Samples outside the range 380–780nm are ignored.
+	 * The tristimulus values are not chromatically adapted, so the color appears as under the illuminant
+	 * on a display whose white is D65; a perfect reflector under Illuminant A, for example, is orange.
+	 * The relative spectral power distribution of a light source may also be given,
+	 * with {@link Illuminant.E}, in which case a flat distribution of 1 is luminance `Y = 1`.
+	 * The result is not clipped to the sRGB gamut.
+	 * @see https://en.wikipedia.org/wiki/CIE_1931_color_space#Computing_XYZ_From_Spectral_Data
+	 * @param   samples the reflectance factors, in order of wavelength
+	 * @param   options the spectrum options
+	 * @param   options.start the wavelength of the first sample, in nanometers (default 380)
+	 * @param   options.step the interval between the wavelengths of consecutive samples, in nanometers (default 5)
+	 * @param   options.illuminant the illuminant under which the object is viewed (default D65)
+	 * @param   options.alpha the alpha channel of the color
+	 * @returns a new Color object with the color of the given spectrum
+	 * @throws  {RangeError} if no samples are given, or if the step is not positive
+	 */
+	static fromSpectrum(samples: readonly number[], options: {
+		start?: number;
+		step?: number;
+		illuminant?: Illuminant;
+		alpha?: Fraction|number;
+	} = {}): Color {
+		const { start = 380, step = 5, illuminant = Illuminant.D65, alpha = 1 } = options
+		if (!samples.length) throw new RangeError('No samples provided.')
+		if (!(0 < step)) throw new RangeError(`Invalid wavelength step: ${step}nm.`)
+		const weights: Triple[] = samples.map((_, i) => {
+			const nm: number = start + i * step
+			const power: number = Color._illuminantPower(illuminant, nm)
+			return Color._interpolateSpectrum(Color._CIE_1931, nm).map((c) => c * power) as Triple
+		})
+		const white: number = weights.reduce((sum, [_x, y]) => sum + y, 0)
+		if (white === 0) return Color.fromXYZ(0, 0, 0, alpha)
+		const [x, y, z]: number[] = [0, 1, 2].map((j) => weights.reduce((sum, w, i) => sum + w[j] * samples[i], 0) / white)
+		return Color.fromXYZ(x, y, z, alpha)
+	}
+
+	/**
+	 * Return a new Color object, given an arbitrary string, such as a user name or a tag.
+	 *
+	 * The same string always returns the same color, and different strings return well-distributed colors.
+	 * The hue is derived from the string’s hash, and the lightness and chroma (in OKLCH) are
+	 * derived from it too, but constrained to the given bands, so that all colors have a similar weight.
+	 * The color is mapped into the sRGB gamut.
+	 * @param   str the string from which to derive a color
+	 * @param   options the bands within which to constrain the color
+	 * @param   options.lightness the minimum and maximum OKLCH lightness, within `[0, 1]` (default `[0.6, 0.8]`)
+	 * @param   options.chroma the minimum and maximum OKLCH chroma, non-negative (default `[0.1, 0.15]`)
+	 * @param   options.alpha the alpha channel of the color
+	 * @returns a new Color object derived from the given string
+	 * @throws  {RangeError} if a band is invalid
+	 */
+	static fromHash(str: string, options: {
+		lightness?: readonly [number, number];
+		chroma?: readonly [number, number];
+		alpha?: Fraction|number;
+	} = {}): Color {
+		const lightness: readonly [number, number] = options.lightness || [0.6, 0.8]
+		const chroma   : readonly [number, number] = options.chroma    || [0.1, 0.15]
+		if (lightness[0] < 0 || lightness[1] < lightness[0] || 1 < lightness[1]) throw new RangeError(`Invalid lightness band: [${lightness}].`)
+		if (chroma   [0] < 0 || chroma   [1] < chroma   [0]                    ) throw new RangeError(`Invalid chroma band: [${chroma}].`)
+		const random: () => number = Color.seededRandom(str)
+		const hue: number = random()
+		return Color.fromOKLCH(
+			lightness[0] + random() * (lightness[1] - lightness[0]),
+			chroma   [0] + random() * (chroma   [1] - chroma   [0]),
+			hue,
+			(options.alpha !== void 0) ? options.alpha : 1,
+		).toGamut()
+	}
+
+	/**
+	 * Return a new Color object, given channels in one of the predefined color spaces of the CSS `color()` function.
+	 *
+	 * The predefined spaces are
+	 * {@link ColorSpace.SRGB}, {@link ColorSpace.SRGB_LINEAR}, {@link ColorSpace.DISPLAY_P3},
+	 * {@link ColorSpace.A98_RGB}, {@link ColorSpace.PROPHOTO_RGB}, {@link ColorSpace.REC2020},
+	 * {@link ColorSpace.XYZ_D50}, and {@link ColorSpace.XYZ_D65}.
+	 * RGB channels are typically within `[0, 1]`, but values outside that interval are allowed
+	 * and are preserved, so that colors outside the sRGB gamut can be represented.
+	 * @see https://www.w3.org/TR/css-color-4/#predefined
+	 * @param   space the predefined color space of the channels
+	 * @param   c1    the first  channel (red, or X)
+	 * @param   c2    the second channel (green, or Y)
+	 * @param   c3    the third  channel (blue, or Z)
+	 * @param   alpha the alpha channel of this color
+	 * @returns a new Color object with color(space c1 c2 c3 / alpha)
+	 * @throws  {RangeError} if the given space is not a predefined color space
+	 */
+	static fromPredefined(space: ColorSpace, c1: number = 0, c2: number = 0, c3: number = 0, alpha: Fraction|number = 1): Color {
+		const predefined: PredefinedSpace|null = Color._PREDEFINED.get(space) || null
+		if (!predefined) throw new RangeError(`Color space ${ColorSpace[space]} is not a predefined color space.`)
+		return (space === ColorSpace.SRGB) ? new Color([c1, c2, c3], alpha) : Color._fromLinearSRGB(
+			Color._transform(Color._XYZ_LINEAR_SRGB, Color._predefined_XYZ(predefined, [c1, c2, c3])),
+			(alpha instanceof Fraction) ? alpha : new Fraction(alpha),
+		)
+	}
+
+	/**
+	 * Return a new Color object, given an index of the xterm 256-color palette.
+	 *
+	 * - Indices 0–15 are the 16 ANSI system colors, with xterm’s default values.
+	 * - Indices 16–231 are a 6×6×6 color cube, whose channels take the values 0, 95, 135, 175, 215, or 255.
+	 * - Indices 232–255 are a grayscale ramp from `rgb(8 8 8)` to `rgb(238 238 238)`, in steps of 10.
+	 * @see https://en.wikipedia.org/wiki/ANSI_escape_code#8-bit
+	 * @param   index an integer 0–255
+	 * @returns a new Color object with the color of the given index
+	 * @throws  {RangeError} if the index is not an integer 0–255
+	 */
+	static fromAnsi256(index: number): Color {
+		if (!Number.isInteger(index) || index < 0 || 255 < index) throw new RangeError(`Invalid xterm 256-color index: ${index}.`)
+		if (index < 16) return Color.fromString(Color._ANSI_16[index])
+		if (index < 232) {
+			const levels: readonly number[] = [0, 95, 135, 175, 215, 255]
+			const i: number = index - 16
+			return Color.fromRGB(levels[Math.floor(i / 36)], levels[Math.floor(i / 6) % 6], levels[i % 6])
+		}
+		const gray: number = 8 + 10 * (index - 232)
+		return Color.fromRGB(gray, gray, gray)
+	}
+
 	/**
 	 * Return a new Color object, given a string.
 	 *
@@ -364,25 +2036,62 @@ export default class Color {
 	 *  - `hwba(h, w, b, a)`     — DEPRECATED
 	 *  - `hwb(h w b)`
 	 *  - `hwb(h w b / a)`
+	 *  - `hsi(h s i)`
+	 *  - `hsi(h s i / a)`
 	 *  - `cmyk(c, m, y, k)`     — DEPRECATED
 	 *  - `cmyk(c, m, y, k, a)`  — DEPRECATED
 	 *  - `cmyka(c, m, y, k, a)` — DEPRECATED
 	 *  - `cmyk(c m y k)`
 	 *  - `cmyk(c m y k / a)`
+	 *  - `lab(l a b)`
+	 *  - `lab(l a b / a)`
+	 *  - `lch(l c h)`
+	 *  - `lch(l c h / a)`
+	 *  - `oklab(l a b)`
+	 *  - `oklab(l a b / a)`
+	 *  - `oklch(l c h)`
+	 *  - `oklch(l c h / a)`
+	 *  - `yuv(y u v)`, `yiq(y i q)`, or `ycbcr(y cb cr)`, where YCbCr is 8-bit full-range BT.601, as in JPEG
+	 *  - `yuv(y u v / a)`, `yiq(y i q / a)`, or `ycbcr(y cb cr / a)`
+	 *  - `color(space c1 c2 c3)`, where `space` is a predefined color space, e.g. `display-p3`
+	 *  - `color(space c1 c2 c3 / a)`
+	 *  - `color-mix(in space, color1 [p1], color2 [p2])`, where `space` is an interpolation space, e.g. `oklch`,
+	 *    optionally followed by a hue interpolation method, e.g. `in lch longer hue`
+	 *  - `fn(from origin c1 c2 c3 [/ a])`, a relative color, where `fn` is one of
+	 *    `rgb`, `hsl`, `hwb`, `lab`, `lch`, `oklab`, `oklch`, or `color` (followed by a predefined space),
+	 *    and each channel is a number, percentage, channel keyword, or `calc()` expression,
+	 *    e.g. `hsl(from #336699 h s calc(l + 20%))`
    *  - *any exact string match of a named color*
+	 *
+	 * In the space-separated syntax of `rgb()`, `hsl()`, `hsv()`, `hwb()`, `lab()`, `lch()`, `oklab()`, `oklch()`, and `color()`,
+	 * and in relative colors, any channel (including alpha) may be the keyword `none`, a missing component,
+	 * e.g. `hsl(none 0% 50%)`. A missing component resolves to zero, but is preserved,
+	 * as reported by {@link Color#missing}, written by {@link Color#toString}, and ignored by {@link Color#mix}.
 	 *
 	 * Note that the comma-separated value syntax, while still supported, is deprecated.
 	 * Authors should convert to the new space-separated value syntax, as specified in
 	 * {@link https://drafts.csswg.org/css-color/|CSS Color Module Level 4, Editor’s Draft}.
 	 * Deprecated syntax will become obsolete in an upcoming major version.
 	 *
+	 * In a relative color, the channel keywords (e.g. `r`, `g`, `b`, and `alpha`) take the values
+	 * of the origin color’s channels, as specified by CSS Color 5:
+	 * RGB channels are numbers 0–255, HSL and HWB channels are numbers 0–100, and hues are in degrees.
+	 * Percentages in a channel resolve against the channel’s full range.
+	 * As in CSS, the resolved channels of `rgb()`, `hsl()`, and `hwb()` are clamped to their ranges
+	 * (so the result is within the sRGB gamut), and alpha is clamped to `[0, 1]`.
+	 * An optional `resolver` may be given to resolve origin colors that cannot be parsed directly,
+	 * such as custom properties (`var(--brand)`);
+	 * if it returns `null`, the origin is parsed as a color string.
+	 *
 	 * @see {@link https://www.w3.org/TR/css-color-4/#named-colors|Named Colors | CSS Color Module Level 4}
+	 * @see {@link https://www.w3.org/TR/css-color-5/#relative-colors|Relative Colors | CSS Color Module Level 5}
 	 * @param   str a string of one of the forms described
+	 * @param   resolver a function returning the origin color of a relative color, given its string
 	 * @returns a new Color object constructed from the given string
 	 * @throws  {RangeError} if the string given is not a valid format
 	 * @throws  {ReferenceError} if the color name given was not found
 	 */
-	static fromString(str: string = ''): Color {
+	static fromString(str: string = '', resolver?: (origin: string) => Color|null): Color {
 		if (str === '') return new Color()
 
 		/* ---- the string is a hex color ---- */
@@ -398,6 +2107,126 @@ export default class Color {
 			return new Color(red, green, blue, alpha || void 0)
 		}
 
+		/* ---- the string is a relative color ---- */
+		if (Color.REGEXP_RELATIVE.test(str)) {
+			const fn: string = str.split('(')[0]
+			const [main, alpha_expr = 'alpha', ...extra]: string[] = Color._splitTopLevel(str.slice(fn.length + 1, -1), '/').map((s) => s.trim())
+			const tokens: string[] = Color._splitTopLevel(main, ' ').filter((s) => s !== '')
+			const origin: Color = ((resolver) ? resolver(tokens[1]) : null) || Color.fromString(tokens[1], resolver)
+			const predefined: ColorSpace|null = (fn === 'color') ? ([...Color._PREDEFINED].find(([_space, predefined]) =>
+				predefined.name === ((tokens[2] === 'xyz') ? 'xyz-d65' : tokens[2])
+			) || [null])[0] : null
+			const channels: string[] = tokens.slice((fn === 'color') ? 3 : 2)
+			if (extra.length || channels.length !== 3 || fn === 'color' && predefined === null) throw new RangeError(`Invalid string format: '${str}'.`)
+			const hue = (degrees: number): Angle => new Angle((degrees / 360 % 1 + 1) % 1)
+			const percent = (value: number): number => xjs.Math.clamp(0, value / 100, 1)
+			const [names, refs, values, build]: [string[], (number|null)[], number[], (values: number[], alpha: Fraction) => Color] = (predefined !== null) ? [
+				([ColorSpace.XYZ_D50, ColorSpace.XYZ_D65].includes(predefined)) ? ['x', 'y', 'z'] : ['r', 'g', 'b'],
+				[1, 1, 1],
+				origin.predefined(predefined).slice(0, 3) as number[],
+				([c1, c2, c3], alpha) => Color.fromPredefined(predefined, c1, c2, c3, alpha),
+			] : new Map<string, () => [string[], (number|null)[], number[], (values: number[], alpha: Fraction) => Color]>([
+				['rgb', () => [
+					['r', 'g', 'b'], [255, 255, 255],
+					origin._RGB.map((c) => c * 255),
+					([r, g, b], alpha) => new Color([r, g, b].map((c) => xjs.Math.clamp(0, c / 255, 1)) as Triple, alpha),
+				]],
+				['hsl', () => [
+					['h', 's', 'l'], [null, 100, 100],
+					[origin.hslHue.convert(AngleUnit.DEG), origin.hslSat.valueOf() * 100, origin.hslLum.valueOf() * 100],
+					([h, s, l], alpha) => Color.fromHSL(hue(h), percent(s), percent(l), alpha),
+				]],
+				['hwb', () => [
+					['h', 'w', 'b'], [null, 100, 100],
+					[origin.hwbHue.convert(AngleUnit.DEG), origin.hwbWhite.valueOf() * 100, origin.hwbBlack.valueOf() * 100],
+					([h, w, b], alpha) => Color.fromHWB(hue(h), percent(w), percent(b), alpha),
+				]],
+				['lab', () => [
+					['l', 'a', 'b'], [100, 125, 125],
+					origin._lab(),
+					([l, a, b], alpha) => Color.fromLab(l, a, b, alpha),
+				]],
+				['lch', () => [
+					['l', 'c', 'h'], [100, 150, null],
+					[origin.lchLightness, origin.lchChroma, origin.lchHue.convert(AngleUnit.DEG)],
+					([l, c, h], alpha) => Color.fromLCH(l, c, hue(h), alpha),
+				]],
+				['oklab', () => [
+					['l', 'a', 'b'], [1, 0.4, 0.4],
+					origin._oklab(),
+					([l, a, b], alpha) => Color.fromOKLab(l, a, b, alpha),
+				]],
+				['oklch', () => [
+					['l', 'c', 'h'], [1, 0.4, null],
+					[origin.oklchLightness, origin.oklchChroma, origin.oklchHue.convert(AngleUnit.DEG)],
+					([l, c, h], alpha) => Color.fromOKLCH(l, c, hue(h), alpha),
+				]],
+			]).get((fn === 'rgba' || fn === 'hsla') ? fn.slice(0, -1) : fn) !()
+			const space: ColorSpace = (predefined !== null) ? predefined : new Map<string, ColorSpace>([
+				['rgb'  , ColorSpace.RGB],
+				['hsl'  , ColorSpace.HSL],
+				['hwb'  , ColorSpace.HWB],
+				['lab'  , ColorSpace.LAB],
+				['lch'  , ColorSpace.LCH],
+				['oklab', ColorSpace.OKLAB],
+				['oklch', ColorSpace.OKLCH],
+			]).get((fn === 'rgba' || fn === 'hsla') ? fn.slice(0, -1) : fn) !
+			const keywords: ReadonlyMap<string, number> = new Map<string, number>([
+				...names.map((name, i): [string, number] => [name, values[i]]),
+				['alpha', origin.alpha.valueOf()],
+			])
+			return Color._withMissing(build(
+				channels.map((channel, i) => (channel === 'none') ? 0 : Color._calc(channel, keywords, refs[i])),
+				new Fraction((alpha_expr === 'none') ? 0 : xjs.Math.clamp(0, Color._calc(alpha_expr, keywords, 1), 1))
+			), space, [...channels, alpha_expr].map((channel) => channel === 'none'))
+		}
+
+		/* ---- the string is a color mix ---- */
+		if (Color.REGEXP_COLOR_MIX.test(str)) {
+			const [method, ...args]: string[] = Color._splitTopLevel(str.slice('color-mix('.length, -1), ',').map((s) => s.trim())
+			if (args.length !== 2) throw new RangeError(`Invalid string format: '${str}'.`)
+			const [space_name, hue_method]: string[] = method.split(/\s+/).slice(1)
+			const space: ColorSpace = new Map<string, ColorSpace>([
+				...[...Color._PREDEFINED].map(([space, predefined]): [string, ColorSpace] => [predefined.name, space]),
+				['xyz'  , ColorSpace.XYZ_D65],
+				['lab'  , ColorSpace.LAB],
+				['oklab', ColorSpace.OKLAB],
+				['hsl'  , ColorSpace.HSL],
+				['hwb'  , ColorSpace.HWB],
+				['lch'  , ColorSpace.LCH],
+				['oklch', ColorSpace.OKLCH],
+			]).get(space_name) !
+			const hueInterpolation: HueInterpolation = new Map<string, HueInterpolation>([
+				['shorter'   , HueInterpolation.SHORTER],
+				['longer'    , HueInterpolation.LONGER],
+				['increasing', HueInterpolation.INCREASING],
+				['decreasing', HueInterpolation.DECREASING],
+			]).get(hue_method) || HueInterpolation.SHORTER
+			if (hue_method && Color._hueChannel(space) === null) throw new RangeError(`Invalid string format: '${str}'.`)
+			const [[color1, p1], [color2, p2]]: [Color, number|null][] = args.map((arg): [Color, number|null] => {
+				const tokens: string[] = Color._splitTopLevel(arg, ' ').filter((s) => s !== '')
+				const percentage: string|null = tokens.find((t) => Percentage.REGEXP.test(t)) || null
+				const color: string = tokens.filter((t) => t !== percentage).join(' ')
+				const p: number|null = (percentage !== null) ? Percentage.fromString(percentage) : null
+				if (p !== null && (p < 0 || 1 < p) || tokens.length - ((percentage !== null) ? 1 : 0) !== 1) {
+					throw new RangeError(`Invalid string format: '${str}'.`)
+				}
+				return [Color.fromString(color, resolver), p]
+			})
+			const [w1, w2]: number[] =
+				(p1 === null && p2 === null) ? [0.5, 0.5] :
+				(p2 === null) ? [p1 !, 1 - p1 !] :
+				(p1 === null) ? [1 - p2, p2] :
+				[p1, p2]
+			if (w1 + w2 === 0) throw new RangeError(`Invalid string format: '${str}'.`)
+			const mixed: Color = color1.mix(color2, w2 / (w1 + w2), { space, hueInterpolation })
+			return (w1 + w2 < 1) ? Color._withMissing(
+				new Color(mixed._RGB, new Fraction(mixed.alpha.valueOf() * (w1 + w2))),
+				space,
+				mixed._missingChannels(space)
+			) : mixed
+		}
+
 		/* ---- the string is a CSS function ---- */
 		if (new RegExp(`^(?:${[
 			Color.REGEXP_RGB_LEGACY,
@@ -409,6 +2238,12 @@ export default class Color {
 			Color.REGEXP_HUE_LEGACY,
 			Color.REGEXP_HUEA_LEGACY,
 			Color.REGEXP_HUE,
+			Color.REGEXP_LUMA,
+			Color.REGEXP_LAB,
+			Color.REGEXP_LCH,
+			Color.REGEXP_OKLAB,
+			Color.REGEXP_OKLCH,
+			Color.REGEXP_COLOR,
 		].map((r) => r.source.slice(1,-1)).join('|')})$`).test(str)) {
 			// COMBAK: add a console warning for legacy syntax, once CSS-Colors-4 is released.
 			// if (new RegExp(`^(?:${[
@@ -430,6 +2265,10 @@ export default class Color {
 				channels.push(cssarg.split('/')[1])
 			}
 			channels = channels.map((cs) => cs.trim())
+			// missing components (`none`) are only allowed in modern syntax, and resolve to zero
+			const offset : number    = (space === 'color') ? 1 : 0
+			const missing: boolean[] = [0, 1, 2, 3].map((i) => channels[i + offset] === 'none')
+			channels = channels.map((cs, i) => (cs !== 'none') ? cs : (/^(?:hsv|hsl|hwb|hsi)$/.test(space) && (i === 1 || i === 2)) ? '0%' : '0')
 			if (new RegExp(`^(?:${[
 				Color.REGEXP_RGB_LEGACY,
 				Color.REGEXP_RGBA_LEGACY,
@@ -439,7 +2278,7 @@ export default class Color {
 				let green : Fraction      =                 new Fraction((xjs.Number.REGEXP.test(channels[1])) ? +channels[1] / 255 : Percentage.fromString(channels[1]))
 				let blue  : Fraction      =                 new Fraction((xjs.Number.REGEXP.test(channels[2])) ? +channels[2] / 255 : Percentage.fromString(channels[2]))
 				let alpha : Fraction|null = (channels[3]) ? new Fraction((xjs.Number.REGEXP.test(channels[3])) ? +channels[3]       : Percentage.fromString(channels[3])) : null
-				return new Color(red, green, blue, alpha || void 0)
+				return Color._withMissing(new Color(red, green, blue, alpha || void 0), ColorSpace.RGB, missing)
 			}
 			if (new RegExp(`^(?:${[
 				Color.REGEXP_CMYK_LEGACY,
@@ -459,17 +2298,69 @@ export default class Color {
 				Color.REGEXP_HUE,
 			].map((r) => r.source.slice(1,-1)).join('|')})$`).test(str)) {
 				let hue  : Angle         = new Angle((xjs.Number.REGEXP.test(channels[0])) ? `${channels[0]}deg` : channels[0])
-				let p1   : Fraction      = new Fraction(Percentage.fromString(channels[1]))
-				let p2   : Fraction      = new Fraction(Percentage.fromString(channels[2]))
+				let p1   : Fraction      = new Fraction((xjs.Number.REGEXP.test(channels[1])) ? +channels[1] / 100 : Percentage.fromString(channels[1]))
+				let p2   : Fraction      = new Fraction((xjs.Number.REGEXP.test(channels[2])) ? +channels[2] / 100 : Percentage.fromString(channels[2]))
 				let alpha: Fraction|null = (channels[3]) ? new Fraction((xjs.Number.REGEXP.test(channels[3])) ? +channels[3] : Percentage.fromString(channels[3])) : null
-				return new Map<string, (hue: Angle, p1: Fraction, p2: Fraction, alpha?: Fraction) => Color>([
+				return Color._withMissing(new Map<string, (hue: Angle, p1: Fraction, p2: Fraction, alpha?: Fraction) => Color>([
 					['hsv'  , Color.fromHSV],
 					['hsva' , Color.fromHSV], // COMBAK{DEPRECATED}
 					['hsl'  , Color.fromHSL],
 					['hsla' , Color.fromHSL], // COMBAK{DEPRECATED}
 					['hwb'  , Color.fromHWB],
 					['hwba' , Color.fromHWB], // COMBAK{DEPRECATED}
-				]).get(space) !(hue, p1, p2, alpha || void 0)
+					['hsi'  , Color.fromHSI],
+				]).get(space) !(hue, p1, p2, alpha || void 0), new Map<string, ColorSpace>([
+					['hsv', ColorSpace.HSV],
+					['hsl', ColorSpace.HSL],
+					['hwb', ColorSpace.HWB],
+					['hsi', ColorSpace.HSI],
+				]).get(space.slice(0, 3)) !, missing)
+			}
+			if (Color.REGEXP_LUMA.test(str)) {
+				let [c1, c2, c3]: number[] = channels.slice(0, 3).map((c) => +c)
+				let alpha: Fraction|null = (channels[3]) ? new Fraction((xjs.Number.REGEXP.test(channels[3])) ? +channels[3] : Percentage.fromString(channels[3])) : null
+				return new Map<string, (c1: number, c2: number, c3: number, alpha?: Fraction) => Color>([
+					['yuv'  , Color.fromYUV],
+					['yiq'  , Color.fromYIQ],
+					['ycbcr', Color.fromYCbCr],
+				]).get(space) !(c1, c2, c3, alpha || void 0)
+			}
+			if (Color.REGEXP_LAB.test(str)) {
+				let lightness: number        =                 (xjs.Number.REGEXP.test(channels[0])) ? +channels[0] : Percentage.fromString(channels[0]) * 100
+				let a        : number        =                 (xjs.Number.REGEXP.test(channels[1])) ? +channels[1] : Percentage.fromString(channels[1]) * 125
+				let b        : number        =                 (xjs.Number.REGEXP.test(channels[2])) ? +channels[2] : Percentage.fromString(channels[2]) * 125
+				let alpha    : Fraction|null = (channels[3]) ? new Fraction((xjs.Number.REGEXP.test(channels[3])) ? +channels[3] : Percentage.fromString(channels[3])) : null
+				return Color._withMissing(Color.fromLab(lightness, a, b, alpha || void 0), ColorSpace.LAB, missing)
+			}
+			if (Color.REGEXP_LCH.test(str)) {
+				let lightness: number        =                 (xjs.Number.REGEXP.test(channels[0])) ? +channels[0] : Percentage.fromString(channels[0]) * 100
+				let chroma   : number        =                 (xjs.Number.REGEXP.test(channels[1])) ? +channels[1] : Percentage.fromString(channels[1]) * 150
+				let hue      : Angle         = new Angle((xjs.Number.REGEXP.test(channels[2])) ? `${channels[2]}deg` : channels[2])
+				let alpha    : Fraction|null = (channels[3]) ? new Fraction((xjs.Number.REGEXP.test(channels[3])) ? +channels[3] : Percentage.fromString(channels[3])) : null
+				return Color._withMissing(Color.fromLCH(lightness, chroma, hue, alpha || void 0), ColorSpace.LCH, missing)
+			}
+			if (Color.REGEXP_OKLAB.test(str)) {
+				let lightness: number        =                 (xjs.Number.REGEXP.test(channels[0])) ? +channels[0] : Percentage.fromString(channels[0])
+				let a        : number        =                 (xjs.Number.REGEXP.test(channels[1])) ? +channels[1] : Percentage.fromString(channels[1]) * 0.4
+				let b        : number        =                 (xjs.Number.REGEXP.test(channels[2])) ? +channels[2] : Percentage.fromString(channels[2]) * 0.4
+				let alpha    : Fraction|null = (channels[3]) ? new Fraction((xjs.Number.REGEXP.test(channels[3])) ? +channels[3] : Percentage.fromString(channels[3])) : null
+				return Color._withMissing(Color.fromOKLab(lightness, a, b, alpha || void 0), ColorSpace.OKLAB, missing)
+			}
+			if (Color.REGEXP_OKLCH.test(str)) {
+				let lightness: number        =                 (xjs.Number.REGEXP.test(channels[0])) ? +channels[0] : Percentage.fromString(channels[0])
+				let chroma   : number        =                 (xjs.Number.REGEXP.test(channels[1])) ? +channels[1] : Percentage.fromString(channels[1]) * 0.4
+				let hue      : Angle         = new Angle((xjs.Number.REGEXP.test(channels[2])) ? `${channels[2]}deg` : channels[2])
+				let alpha    : Fraction|null = (channels[3]) ? new Fraction((xjs.Number.REGEXP.test(channels[3])) ? +channels[3] : Percentage.fromString(channels[3])) : null
+				return Color._withMissing(Color.fromOKLCH(lightness, chroma, hue, alpha || void 0), ColorSpace.OKLCH, missing)
+			}
+			if (Color.REGEXP_COLOR.test(str)) {
+				let name : string        = (channels[0] === 'xyz') ? 'xyz-d65' : channels[0]
+				let c1   : number        =                 (xjs.Number.REGEXP.test(channels[1])) ? +channels[1] : Percentage.fromString(channels[1])
+				let c2   : number        =                 (xjs.Number.REGEXP.test(channels[2])) ? +channels[2] : Percentage.fromString(channels[2])
+				let c3   : number        =                 (xjs.Number.REGEXP.test(channels[3])) ? +channels[3] : Percentage.fromString(channels[3])
+				let alpha: Fraction|null = (channels[4]) ? new Fraction((xjs.Number.REGEXP.test(channels[4])) ? +channels[4] : Percentage.fromString(channels[4])) : null
+				let predefined: ColorSpace = [...Color._PREDEFINED].find(([_space, predefined]) => predefined.name === name) ![0]
+				return Color._withMissing(Color.fromPredefined(predefined, c1, c2, c3, alpha || void 0), predefined, missing)
 			}
 		}
 
@@ -506,6 +2397,66 @@ export default class Color {
 		)
 	}
 
+	/**
+	 * Return a new Color object, given its JSON representation.
+	 *
+	 * This is the inverse of {@link Color#toJSON}.
+	 * The space is the name of any member of {@link ColorSpace} except CMYK, and the channels are in that space,
+	 * with hues in turns and the other channels of HSV, HSL, HWB, and HSI within `[0, 1]`.
+	 * A `null` channel or alpha is a missing component.
+	 * A string is parsed as a CSS color string, as by {@link Color.fromString}.
+	 * @param   json a JSON representation of a color, or a CSS color string
+	 * @returns a new Color object with the given representation
+	 * @throws  {TypeError} if the object is not a valid representation
+	 * @throws  {RangeError} if the space is not a valid color space
+	 */
+	static fromJSON(json: ColorJSON|string): Color {
+		if (typeof json === 'string') return Color.fromString(json)
+		if (!Color._isColorJSON(json)) throw new TypeError(`Invalid JSON representation of a color: ${JSON.stringify(json)}.`)
+		const space: unknown = ColorSpace[json.space as keyof typeof ColorSpace]
+		if (typeof space !== 'number' || space === ColorSpace.CMYK) throw new RangeError(`Invalid color space: ${json.space}.`)
+		return Color._withMissing(
+			Color._fromCoordinates(space, json.channels.map((c) => c || 0) as Triple, new Fraction((json.alpha !== null) ? json.alpha : 1)),
+			space,
+			[...json.channels, json.alpha].map((c) => c === null),
+		)
+	}
+
+	/**
+	 * Revive the JSON representations of colors, when passed to `JSON.parse`.
+	 *
+	 * Every object with the shape of {@link ColorJSON} is revived as a Color object, as by {@link Color.fromJSON};
+	 * other values are returned unchanged.
+	 * CSS color strings are not revived, since they cannot be told apart from other strings.
+	 * @example
+	 * const theme = JSON.parse(text, Color.reviver)
+	 * @param   _key the property key of the value being parsed
+	 * @param   value the parsed value
+	 * @returns a new Color object, or the given value
+	 */
+	static reviver(this: void, _key: string, value: unknown): unknown {
+		return (Color._isColorJSON(value)) ? Color.fromJSON(value) : value
+	}
+
+	/**
+	 * Return a function that serializes colors as CSS strings, when passed to `JSON.stringify`.
+	 *
+	 * Each Color object is replaced by its string representation, as by {@link Color#toString};
+	 * other values are returned unchanged.
+	 * Note that the string may lose precision, unless it is written with full precision in a wide-gamut space.
+	 * @example
+	 * JSON.stringify(theme, Color.replacer(ColorSpace.OKLCH, { precision: 4 }))
+	 * @param   space the color space of the strings
+	 * @param   options the formatting options of the strings
+	 * @returns a replacer function for `JSON.stringify`
+	 */
+	static replacer(space: ColorSpace = ColorSpace.HEX, options: ColorStringOptions = {}): (this: unknown, key: string, value: unknown) => unknown {
+		return function (this: unknown, key: string, value: unknown): unknown {
+			const original: unknown = (this as Record<string, unknown>)[key] // `value` has already been converted by `Color#toJSON`
+			return (original instanceof Color) ? original.toString(space, options) : value
+		}
+	}
+
 	/**
 	 * Blur two or more colors. The average will be weighted evenly.
 	 *
@@ -534,7 +2485,7 @@ export default class Color {
 		 * @returns the compounded value
 		 */
 		function blurChannels(...comps: Fraction[]): Fraction {
-			return Color._linear_sRGB(new Fraction(xjs.Math.meanArithmetic(...comps.map((c) => Color._sRGB_Linear(c).valueOf()))))
+			return new Fraction(Color._linear_sRGB(xjs.Math.meanArithmetic(...comps.map((c) => Color._sRGB_Linear(c.valueOf())))))
 		}
 		return new Color(
 			blurChannels(...colors.map((c) => c.red  )),
@@ -544,30 +2495,162 @@ export default class Color {
 		)
 	}
 
+	/**
+	 * Return a pseudo-random number generator, given a seed.
+	 *
+	 * Like `Math.random`, the generator returns numbers within `[0, 1)`,
+	 * but the same seed always produces the same sequence, on any platform.
+	 * Pass it to {@link Color.random} or {@link Color.randomName} for reproducible results.
+	 * The algorithm (Mulberry32) is fast, but not suitable for cryptography.
+	 * @param   seed an integer, or a string to be hashed
+	 * @returns a function returning a new pseudo-random number each time it is called
+	 */
+	static seededRandom(seed: number|string): () => number {
+		let state: number = ((typeof seed === 'string') ? Color._hash(seed) : seed) >>> 0
+		return () => {
+			state = (state + 0x6d2b79f5) >>> 0
+			let t: number = state
+			t = Math.imul(t ^ (t >>> 15), t | 1)
+			t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+			return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32
+		}
+	}
+
 	/**
 	 * Generate a random color.
 	 * @param   alpha should the alpha channel also be randomized? (if false, default alpha value is 1)
+	 * @param   random the source of randomness, returning numbers within `[0, 1)`; see {@link Color.seededRandom}
 	 * @returns a Color object with random values
 	 */
-	static random(alpha: boolean = true): Color {
-		return new Color(`#${Math.random().toString(16).slice(2, (alpha) ? 10 : 8)}`)
+	static random(alpha: boolean = true, random: () => number = Math.random): Color {
+		const [red, green, blue, opacity]: number[] = [...new Array((alpha) ? 4 : 3)].map(() => Math.floor(random() * 256))
+		return Color.fromRGB(red, green, blue, (alpha) ? opacity / 255 : 1)
+	}
+
+	/**
+	 * Choose the most readable of several candidate colors on a given background.
+	 *
+	 * If a minimum contrast ratio is given, candidates are treated as being in order of preference,
+	 * and the first candidate meeting the ratio is returned.
+	 * Otherwise, or if no candidate meets the ratio, the candidate with the greatest contrast is returned
+	 * (the first, in case of a tie).
+	 * @param   background the background color
+	 * @param   candidates the candidate foreground colors
+	 * @param   ratio the minimum contrast ratio, if any, a number 1–21
+	 * @returns the chosen candidate
+	 * @throws  {Error} if no candidates are provided
+	 */
+	static mostReadable(background: Color, candidates: readonly Color[], ratio?: number): Color {
+		if (!candidates.length) throw new Error('No arguments provided.')
+		const acceptable: Color|null = (ratio !== void 0) && candidates.find((c) => c.contrastRatioOn(background) >= ratio) || null
+		return acceptable || candidates.reduce((best, c) => (c.contrastRatioOn(background) > best.contrastRatioOn(background)) ? c : best)
+	}
+
+	/**
+	 * Flatten a stack of translucent layers into a single color.
+	 *
+	 * Layers are listed from bottom to top, and each layer is
+	 * {@link Color#composite|composited} over the layers below it using {@link CompositeOperator.SOURCE_OVER}.
+	 * To flatten a stack onto a background, list the background first.
+	 * @param   layers the colors to flatten, from bottom to top
+	 * @returns the color seen when all the layers are stacked
+	 * @throws  {Error} if no layers are provided
+	 */
+	static flatten(...layers: Color[]): Color {
+		if (!layers.length) throw new Error('No arguments provided.')
+		return layers.reduce((destination, source) => source.composite(destination))
+	}
+
+	/**
+	 * Reduce a list of colors, such as the pixels of an image, to a palette of its dominant colors.
+	 *
+	 * Colors are clustered by Euclidean distance in the given color space, which should be perceptually uniform
+	 * (such as OKLab, the default) for the palette to match what the eye sees.
+	 * Each color of the palette is the average of its cluster, including alpha;
+	 * fully transparent colors are ignored.
+	 * Both methods are deterministic: k-means starts from the clusters found by median-cut.
+	 * @param   colors the colors to quantize
+	 * @param   n the maximum number of colors in the palette, a positive integer
+	 * @param   options the quantization options
+	 * @param   options.method the quantization algorithm (default median-cut)
+	 * @param   options.space the color space in which to cluster (default OKLab); any space without a hue, except CMYK
+	 * @param   options.iterations the maximum number of k-means iterations (default 16)
+	 * @returns up to `n` colors, with the number of given colors in each color’s cluster, from most to least populous
+	 * @throws  {RangeError} if `n` is not a positive integer
+	 * @throws  {RangeError} if the given color space cannot be used for quantization
+	 */
+	static quantize(colors: readonly Color[], n: number, options: {
+		method?: QuantizationMethod;
+		space?: ColorSpace;
+		iterations?: number;
+	} = {}): { color: Color; population: number; }[] {
+		const { method = QuantizationMethod.MEDIAN_CUT, space = ColorSpace.OKLAB, iterations = 16 } = options
+		if (!Number.isInteger(n) || n < 1) throw new RangeError(`Invalid number of colors: ${n}.`)
+		if (space === ColorSpace.CMYK || Color._hueChannel(space) !== null) throw new RangeError(`Color space ${ColorSpace[space]} cannot be used for quantization.`)
+		/** Each point is the three coordinates of a color, followed by its alpha. */
+		const points: number[][] = colors.filter((c) => !c.alpha.equals(0)).map((c) => [...c._coordinates(space), c.alpha.valueOf()])
+		const centroid = (cluster: readonly number[][]): number[] => [0, 1, 2, 3].map((i) => cluster.reduce((sum, p) => sum + p[i], 0) / cluster.length)
+		const distance = (p: readonly number[], q: readonly number[]): number => Math.hypot(p[0] - q[0], p[1] - q[1], p[2] - q[2])
+
+		let clusters: number[][][] = (points.length) ? [points] : []
+		while (0 < clusters.length && clusters.length < n) {
+			const [widest, channel, range]: [number[][], number, number] = clusters
+				.map((cluster) => [0, 1, 2].map((i): [number[][], number, number] => [cluster, i,
+					cluster.reduce((max, p) => Math.max(max, p[i]), -Infinity) -
+					cluster.reduce((min, p) => Math.min(min, p[i]),  Infinity),
+				]))
+				.reduce((a, b) => [...a, ...b])
+				.reduce((a, b) => (b[2] > a[2]) ? b : a)
+			if (range === 0) break // every cluster contains only one distinct color
+			const median: number = [...widest].sort((p, q) => p[channel] - q[channel])[Math.floor(widest.length / 2)][channel]
+			const low: boolean = widest.some((p) => p[channel] < median) // split below the median, unless it is the minimum, so that equal colors stay together
+			clusters.splice(clusters.indexOf(widest), 1,
+				widest.filter((p) => (low) ? p[channel] <  median : p[channel] <= median),
+				widest.filter((p) => (low) ? p[channel] >= median : p[channel] >  median),
+			)
+		}
+
+		if (method === QuantizationMethod.K_MEANS) {
+			let centroids: number[][] = clusters.map((cluster) => centroid(cluster))
+			for (let i = 0; i < iterations; i++) {
+				const assigned: number[][][] = centroids.map(() => [])
+				points.forEach((p) => {
+					const distances: number[] = centroids.map((c) => distance(p, c))
+					assigned[distances.indexOf(Math.min(...distances))].push(p)
+				})
+				const converged: boolean = assigned.every((cluster, j) => cluster.length === clusters[j].length && cluster.every((p, k) => p === clusters[j][k]))
+				clusters = assigned.filter((cluster) => cluster.length > 0)
+				if (converged) break
+				centroids = clusters.map((cluster) => centroid(cluster))
+			}
+		}
+
+		return clusters
+			.map((cluster) => {
+				const [c1, c2, c3, alpha]: number[] = centroid(cluster)
+				return { color: Color._fromCoordinates(space, [c1, c2, c3], new Fraction(alpha)), population: cluster.length }
+			})
+			.sort((a, b) => b.population - a.population)
 	}
 
 	/**
 	 * Randomly select a Named Color.
+	 * @param   random the source of randomness, returning numbers within `[0, 1)`; see {@link Color.seededRandom}
 	 * @returns one of the Named Colors, randomly chosen
 	 */
-	static randomName(): Color {
+	static randomName(random: () => number = Math.random): Color {
 		let named_colors: [string, string][] = Object.entries(NAMES)
-		return new Color(named_colors[Math.floor(Math.random() * named_colors.length)][1])
+		return new Color(named_colors[Math.floor(random() * named_colors.length)][1])
 	}
 
 
-	/** The red channel of this color. */
+	/** The red, green, and blue channels of this color in extended sRGB, which may lie outside `[0, 1]`. */
+	private readonly _RGB: Triple;
+	/** The red channel of this color, clipped to the sRGB gamut. */
 	private readonly _RED: Fraction;
-	/** The green channel of this color. */
+	/** The green channel of this color, clipped to the sRGB gamut. */
 	private readonly _GREEN: Fraction;
-	/** The blue channel of this color. */
+	/** The blue channel of this color, clipped to the sRGB gamut. */
 	private readonly _BLUE: Fraction;
 	/** The alpha channel of this color. */
 	private readonly _ALPHA: Fraction;
@@ -575,6 +2658,8 @@ export default class Color {
 	private readonly _MAX: number
 	private readonly _MIN: number
 	private readonly _CHROMA: number
+	/** The components of this color explicitly specified as missing (CSS `none`), if any. */
+	private readonly _MISSING: Readonly<{ space: ColorSpace; channels: readonly boolean[]; }>|null
 
 	/**
 	 * Construct a new Color object.
@@ -594,21 +2679,49 @@ export default class Color {
 	 * @param alpha the alpha channel of this color
 	 */
 	constructor(red: Fraction|number, green: Fraction|number, blue: Fraction|number, alpha?: Fraction|number);
+	/**
+	 * Construct a new Color object in extended sRGB.
+	 *
+	 * Unlike the other constructor signatures, the channels may be any finite numbers,
+	 * including those outside the interval `[0, 1]`, to represent colors outside the sRGB gamut.
+	 * Calling `new Color([r, g, b])` will result in an opaque color.
+	 * Components may be marked as missing (CSS `none`) in a given color space;
+	 * their values in that space should then be zero (see {@link Color#missing}).
+	 * @param rgb     the red, green, and blue channels of this color
+	 * @param alpha   the alpha channel of this color
+	 * @param missing the color space in which components are missing, and whether each of its three coordinates, then alpha, is missing
+	 */
+	constructor(rgb: readonly [number, number, number], alpha?: Fraction|number, missing?: Readonly<{ space: ColorSpace; channels: readonly boolean[]; }>|null);
 	/**
 	 * Alias of {@link Color.fromString}
 	 * @param   str same parameter passed to `Color.fromString`
 	 */
 	constructor(str: string);
-	constructor(red: Fraction|number|string = 0, green: Fraction|number = 0, blue: Fraction|number = 0, alpha: Fraction|number = 1) {
+	constructor(
+		red: Fraction|number|string|readonly [number, number, number] = 0,
+		green: Fraction|number = 0,
+		blue: Fraction|number|Readonly<{ space: ColorSpace; channels: readonly boolean[]; }>|null = 0,
+		alpha: Fraction|number = 1,
+	) {
 		if (arguments.length === 0) alpha = 0
+		let missing: Readonly<{ space: ColorSpace; channels: readonly boolean[]; }>|null = null
 		if (typeof red === 'string') {
 			const color: Color = Color.fromString(red)
-			red   = color.red
-			green = color.green
-			blue  = color.blue
+			this._RGB = color._RGB
 			alpha = color.alpha
+			missing = color._MISSING
+		} else if (typeof red === 'number' || red instanceof Fraction) {
+			this._RGB = [red, green, blue as Fraction|number].map((c) => new Fraction(c).valueOf()) as Triple
+		} else {
+			red.forEach((c) => xjs.Number.assertType(c, xjs.NumericType.FINITE))
+			this._RGB = [...red] as Triple
+			alpha = (arguments[1] !== void 0) ? green : 1
+			missing = (typeof blue === 'object' && !(blue instanceof Fraction) && blue !== null && blue.channels.includes(true)) ?
+				{ space: blue.space, channels: [...blue.channels] } :
+				null
 		}
-		;[this._RED, this._GREEN, this._BLUE] = [red, green, blue].map((c) => new Fraction(c))
+		this._MISSING = missing
+		;[this._RED, this._GREEN, this._BLUE] = this._RGB.map((c) => new Fraction(xjs.Math.clamp(0, c, 1)))
 		this._ALPHA = new Fraction(alpha)
 
 		this._MAX    = Math.max(...[this._RED, this._GREEN, this._BLUE].map((c) => c.valueOf()))
@@ -616,18 +2729,126 @@ export default class Color {
 		this._CHROMA = this._MAX - this._MIN
 	}
 
+	/**
+	 * Get the CIE Lab coordinates of this color.
+	 * @returns the `[L, a, b]` coordinates of this color, relative to a D50 white point
+	 */
+	private _lab(): Triple {
+		return Color._XYZ_Lab(Color._transform(Color._D65_D50, this._xyz()))
+	}
+
+	/**
+	 * Get the OKLab coordinates of this color.
+	 * @returns the `[L, a, b]` coordinates of this color in OKLab
+	 */
+	private _oklab(): Triple {
+		return Color._XYZ_OKLab(this._xyz())
+	}
+
+	/**
+	 * Get the CIE XYZ tristimulus values of this color.
+	 * @returns the `[X, Y, Z]` values of this color, relative to a D65 white point
+	 */
+	private _xyz(): Triple {
+		return Color._transform(Color._LINEAR_SRGB_XYZ, this._RGB.map((c) => Color._sRGB_Linear(c)) as Triple)
+	}
+
+	/**
+	 * Composite this color over an opaque backdrop, using simple alpha compositing.
+	 *
+	 * The backdrop’s alpha is ignored, so the result is always opaque.
+	 * @see https://www.w3.org/TR/compositing-1/#simplealphacompositing
+	 * @param   backdrop the color behind this color
+	 * @returns the opaque color seen when this color is drawn over the backdrop
+	 */
+	private _over(backdrop: Color): Color {
+		if (this.alpha.equals(1)) return this
+		return this.composite(new Color(backdrop._RGB))
+	}
+
+	/**
+	 * Get the coordinates of this color in a given color space, used for interpolation.
+	 *
+	 * Hues are given in turns.
+	 * The hue of an achromatic color is powerless, and is given as `NaN`.
+	 * @param   space a color space with three coordinates (any space except CMYK)
+	 * @returns the three coordinates of this color in the given space
+	 * @throws  {RangeError} if the given color space does not have three coordinates
+	 */
+	private _coordinates(space: ColorSpace): Triple {
+		const achromatic: boolean = this._RGB.every((c) => c === this._RGB[0])
+		const hue = (angle: Angle, chroma: number = 1): number =>
+			(achromatic || chroma < Color._ACHROMATIC_EPSILON) ? NaN : angle.valueOf()
+		const coordinates: (() => Triple)|null = new Map<ColorSpace, () => Triple>([
+			[ColorSpace.HEX  , () => [...this._RGB] as Triple],
+			[ColorSpace.RGB  , () => [...this._RGB] as Triple],
+			[ColorSpace.HSV  , () => [hue(this.hsvHue), this.hsvSat  .valueOf(), this.hsvVal  .valueOf()]],
+			[ColorSpace.HSL  , () => [hue(this.hslHue), this.hslSat  .valueOf(), this.hslLum  .valueOf()]],
+			[ColorSpace.HWB  , () => [hue(this.hwbHue), this.hwbWhite.valueOf(), this.hwbBlack.valueOf()]],
+			[ColorSpace.LAB  , () => this._lab()],
+			[ColorSpace.LCH  , () => [this.lchLightness  , this.lchChroma  , hue(this.lchHue  , this.lchChroma  )]],
+			[ColorSpace.OKLAB, () => this._oklab()],
+			[ColorSpace.OKLCH, () => [this.oklchLightness, this.oklchChroma, hue(this.oklchHue, this.oklchChroma)]],
+			[ColorSpace.HSI  , () => [hue(this.hsiHue), this.hsiSat.valueOf(), this.hsiInt.valueOf()]],
+			[ColorSpace.YUV  , () => this.yuv  .slice(0, 3) as Triple],
+			[ColorSpace.YIQ  , () => this.yiq  .slice(0, 3) as Triple],
+			[ColorSpace.YCBCR, () => this.ycbcr().slice(0, 3) as Triple],
+			...[...Color._PREDEFINED.keys()].map((s): [ColorSpace, () => Triple] => [s, () => this.predefined(s).slice(0, 3) as Triple]),
+		]).get(space) || null
+		if (!coordinates) throw new RangeError(`Color space ${ColorSpace[space]} cannot be used for interpolation.`)
+		return coordinates()
+	}
+
+	/**
+	 * Get which components of this color were explicitly specified as missing, carried over to a given color space.
+	 *
+	 * Components missing in the space in which they were specified are also missing in their analogous components.
+	 * @param   space any color space
+	 * @returns whether each of the three coordinates in the given space, then alpha, is missing
+	 */
+	private _missingChannels(space: ColorSpace): [boolean, boolean, boolean, boolean] {
+		if (this._MISSING === null) return [false, false, false, false]
+		const { space: source, channels } = this._MISSING
+		const [from, to]: (readonly (string|null)[])[] = [source, space].map((s) => Color._ANALOGOUS.get(s) || [null, null, null])
+		return [
+			...to.map((category, i) => (source === space) ? channels[i] : category !== null && from.some((c, j) => c === category && channels[j])),
+			channels[3],
+		] as [boolean, boolean, boolean, boolean]
+	}
+
+	/**
+	 * Return the index of the color closest to this color among some colors of the xterm 256-color palette.
+	 * @param   indices the indices of the palette colors to compare
+	 * @param   metric the formula with which to measure the color difference
+	 * @returns the index of the nearest palette color
+	 */
+	private _nearestAnsi(indices: readonly number[], metric: DeltaE): number {
+		const opaque: Color = new Color(this._RGB)
+		const distances: number[] = indices.map((index) => opaque.deltaE(Color.fromAnsi256(index), metric))
+		return indices[distances.indexOf(Math.min(...distances))]
+	}
+
 	/**
 	 * Get the red channel of this color.
+	 *
+	 * If this color lies outside the sRGB gamut (for example, a color constructed in Display P3),
+	 * its sRGB channels are clipped to the interval `[0, 1]`.
+	 * The same applies to all the sRGB-derived channels (CMYK, HSV, HSL, and HWB).
+	 * Other channels, such as those of Lab and the predefined color spaces, preserve the unclipped color.
 	 */
 	get red(): Fraction { return this._RED }
 
 	/**
 	 * Get the green channel of this color.
+	 *
+	 * Clipped to the sRGB gamut; see {@link Color.red}.
 	 */
 	get green(): Fraction { return this._GREEN }
 
 	/**
 	 * Get the blue channel of this color.
+	 *
+	 * Clipped to the sRGB gamut; see {@link Color.red}.
 	 */
 	get blue(): Fraction { return this._BLUE }
 
@@ -680,6 +2901,8 @@ export default class Color {
 	 * Get the hsv-hue of this color.
 	 *
 	 * The HSV-space hue (in degrees) of this color, or what "color" this color is.
+	 * The hue of an achromatic color (gray) is powerless and is 0;
+	 * use {@link Color#missing} to tell whether the hue is meaningful.
 	 * @returns the hsv-hue of this color
 	 */
 	get hsvHue(): Angle {
@@ -708,96 +2931,323 @@ export default class Color {
 	 * @see https://en.wikipedia.org/wiki/HSL_and_HSV#Saturation
 	 * @returns the hsv-saturation of this color.
 	 */
-	get hsvSat(): Fraction {
-		return new Fraction((this._CHROMA === 0) ? 0 : this._CHROMA / this.hsvVal.valueOf())
+	get hsvSat(): Fraction {
+		return new Fraction((this._CHROMA === 0) ? 0 : this._CHROMA / this.hsvVal.valueOf())
+	}
+
+	/**
+	 * Get the hsv-value of this color.
+	 *
+	 * The brightness of this color. A lower value means the color is closer to black, a higher
+	 * value means the color is more true to its hue.
+	 * @see https://en.wikipedia.org/wiki/HSL_and_HSV#Lightness
+	 * @returns the hsv-value of this color.
+	 */
+	get hsvVal(): Fraction {
+		return new Fraction(this._MAX)
+	}
+
+	/**
+	 * Get the hsl-hue of this color.
+	 *
+	 * The Hue of this color. Identical to {@link Color.hsvHue}.
+	 * @returns the hsl-hue of this color
+	 */
+	get hslHue(): Angle {
+		return this.hsvHue
+	}
+
+	/**
+	 * Get the hsl-saturation of this color.
+	 *
+	 * The amount of "color" in the color. A lower saturation means the color is more grayer,
+	 * a higher saturation means the color is more colorful.
+	 * @see https://en.wikipedia.org/wiki/HSL_and_HSV#Saturation
+	 * @returns the hsl-saturation of this color.
+	 */
+	get hslSat(): Fraction {
+		return new Fraction((this._CHROMA === 0) ? 0 : this._CHROMA / (1 - Math.abs(2 * this.hslLum.valueOf() - 1)))
+		/*
+		 * Prove:
+		 * 1 - |2x - 1| == { x <= 0.5 ? 2x : (2 - 2x) }
+		 * Proof:
+		 * Case A. Let x <= 0.5. Then 2x - 1 <= 0, and |2x - 1| == -(2x - 1).
+		 * Then 1 - |2x - 1| == 1 + (2x - 1) == 2x. //
+		 * Case B. Let 0.5 < x. Then 0 < 2x - 1, and |2x - 1| == 2x - 1.
+		 * Then 1 - |2x - 1| == 1 - (2x - 1) == 2 - 2x. //
+		 */
+	}
+
+	/**
+	 * Get the hsl-luminosity of this color.
+	 *
+	 * How "white" or "black" the color is. A lower luminosity means the color is closer to black,
+	 * a higher luminosity means the color is closer to white.
+	 * @see https://en.wikipedia.org/wiki/HSL_and_HSV#Lightness
+	 * @returns the hsl-luminosity of this color.
+	 */
+	get hslLum(): Fraction {
+		return new Fraction(0.5 * (this._MAX + this._MIN))
+	}
+
+	/**
+	 * Get the hwb-hue of this color.
+	 *
+	 * The Hue of this color. Identical to {@link Color.hsvHue}.
+	 * @returns the hwb-hue of this color
+	 */
+	get hwbHue(): Angle {
+		return this.hsvHue
+	}
+
+	/**
+	 * Get the hwb-white of this color.
+	 *
+	 * The amount of White in this color. A higher white means the color is closer to #fff,
+	 * a lower white means the color has a true hue (more colorful).
+	 * @returns the hwb-white of this color
+	 */
+	get hwbWhite(): Fraction {
+		return new Fraction(this._MIN)
+	}
+
+	/**
+	 * Get the hwb-black of this color.
+	 *
+	 * The amount of Black in this color. A higher black means the color is closer to #000,
+	 * a lower black means the color has a true hue (more colorful).
+	 * Identical to {@link Color.cmykBlack}.
+	 * @returns the hwb-black of this color
+	 */
+	get hwbBlack(): Fraction {
+		return this.cmykBlack
+	}
+
+	/**
+	 * Get the hsi-hue of this color.
+	 *
+	 * The Hue of this color. Identical to {@link Color.hsvHue}.
+	 * @returns the hsi-hue of this color
+	 */
+	get hsiHue(): Angle {
+		return this.hsvHue
+	}
+
+	/**
+	 * Get the hsi-saturation of this color.
+	 *
+	 * The proportion of this color’s intensity that is not gray, that is, `1 - min / int`.
+	 * @see https://en.wikipedia.org/wiki/HSL_and_HSV#Saturation
+	 * @returns the hsi-saturation of this color
+	 */
+	get hsiSat(): Fraction {
+		return new Fraction((this._CHROMA === 0) ? 0 : 1 - this._MIN / this.hsiInt.valueOf())
+	}
+
+	/**
+	 * Get the hsi-intensity of this color.
+	 *
+	 * The average of this color’s red, green, and blue channels.
+	 * @see https://en.wikipedia.org/wiki/HSL_and_HSV#Lightness
+	 * @returns the hsi-intensity of this color
+	 */
+	get hsiInt(): Fraction {
+		return new Fraction((this._RED.valueOf() + this._GREEN.valueOf() + this._BLUE.valueOf()) / 3)
+	}
+
+	/**
+	 * Get the lab-lightness of this color.
+	 *
+	 * The perceptual lightness of this color in the CIE Lab color space, a number 0–100.
+	 * Identical to {@link Color.lchLightness}.
+	 * @see https://www.w3.org/TR/css-color-4/#specifying-lab-lch
+	 * @returns the lab-lightness of this color
+	 */
+	get labLightness(): number {
+		return this._lab()[0]
+	}
+
+	/**
+	 * Get the lab-a of this color.
+	 *
+	 * The position of this color along the green–red axis of the CIE Lab color space.
+	 * Negative values are greener, positive values are redder.
+	 * @returns the lab-a of this color
+	 */
+	get labA(): number {
+		return this._lab()[1]
+	}
+
+	/**
+	 * Get the lab-b of this color.
+	 *
+	 * The position of this color along the blue–yellow axis of the CIE Lab color space.
+	 * Negative values are bluer, positive values are yellower.
+	 * @returns the lab-b of this color
+	 */
+	get labB(): number {
+		return this._lab()[2]
+	}
+
+	/**
+	 * Get the lch-lightness of this color.
+	 *
+	 * Identical to {@link Color.labLightness}.
+	 * @returns the lch-lightness of this color
+	 */
+	get lchLightness(): number {
+		return this.labLightness
+	}
+
+	/**
+	 * Get the lch-chroma of this color.
+	 *
+	 * The colorfulness of this color in the CIE LCH color space.
+	 * A chroma of 0 is a neutral gray; higher values are more colorful, with no fixed maximum.
+	 * @returns the lch-chroma of this color
+	 */
+	get lchChroma(): number {
+		const [_l, a, b]: Triple = this._lab()
+		return Math.hypot(a, b)
+	}
+
+	/**
+	 * Get the lch-hue of this color.
+	 *
+	 * The hue angle of this color in the CIE LCH color space.
+	 * Note that this is not the same as {@link Color.hsvHue}.
+	 * @returns the lch-hue of this color
+	 */
+	get lchHue(): Angle {
+		const [_l, a, b]: Triple = this._lab()
+		return new Angle(Math.atan2(b, a) / Angle.CONVERSION[AngleUnit.RAD]).canon
+	}
+
+	/**
+	 * Get the oklab-lightness of this color.
+	 *
+	 * The perceptual lightness of this color in the OKLab color space, a number 0–1.
+	 * Identical to {@link Color.oklchLightness}.
+	 * @see https://www.w3.org/TR/css-color-4/#specifying-oklab-oklch
+	 * @returns the oklab-lightness of this color
+	 */
+	get oklabLightness(): number {
+		return this._oklab()[0]
+	}
+
+	/**
+	 * Get the oklab-a of this color.
+	 *
+	 * The position of this color along the green–red axis of the OKLab color space.
+	 * @returns the oklab-a of this color
+	 */
+	get oklabA(): number {
+		return this._oklab()[1]
+	}
+
+	/**
+	 * Get the oklab-b of this color.
+	 *
+	 * The position of this color along the blue–yellow axis of the OKLab color space.
+	 * @returns the oklab-b of this color
+	 */
+	get oklabB(): number {
+		return this._oklab()[2]
+	}
+
+	/**
+	 * Get the oklch-lightness of this color.
+	 *
+	 * Identical to {@link Color.oklabLightness}.
+	 * @returns the oklch-lightness of this color
+	 */
+	get oklchLightness(): number {
+		return this.oklabLightness
+	}
+
+	/**
+	 * Get the oklch-chroma of this color.
+	 *
+	 * The colorfulness of this color in the OKLCH color space.
+	 * A chroma of 0 is a neutral gray; sRGB colors do not exceed about 0.33.
+	 * @returns the oklch-chroma of this color
+	 */
+	get oklchChroma(): number {
+		const [_l, a, b]: Triple = this._oklab()
+		return Math.hypot(a, b)
 	}
 
 	/**
-	 * Get the hsv-value of this color.
+	 * Get the oklch-hue of this color.
 	 *
-	 * The brightness of this color. A lower value means the color is closer to black, a higher
-	 * value means the color is more true to its hue.
-	 * @see https://en.wikipedia.org/wiki/HSL_and_HSV#Lightness
-	 * @returns the hsv-value of this color.
+	 * The hue angle of this color in the OKLCH color space.
+	 * Note that this is not the same as {@link Color.hsvHue} or {@link Color.lchHue}.
+	 * @returns the oklch-hue of this color
 	 */
-	get hsvVal(): Fraction {
-		return new Fraction(this._MAX)
+	get oklchHue(): Angle {
+		const [_l, a, b]: Triple = this._oklab()
+		return new Angle(Math.atan2(b, a) / Angle.CONVERSION[AngleUnit.RAD]).canon
 	}
 
 	/**
-	 * Get the hsl-hue of this color.
+	 * Get the yuv-luma of this color.
 	 *
-	 * The Hue of this color. Identical to {@link Color.hsvHue}.
-	 * @returns the hsl-hue of this color
+	 * The weighted sum of this color’s gamma-encoded sRGB channels, as specified by ITU-R BT.601, a number 0–1.
+	 * Identical to {@link Color.yiqLuma}.
+	 * @returns the yuv-luma of this color
 	 */
-	get hslHue(): Angle {
-		return this.hsvHue
+	get yuvLuma(): number {
+		return Color._transform(Color._RGB_YUV, this._RGB)[0]
 	}
 
 	/**
-	 * Get the hsl-saturation of this color.
+	 * Get the yuv-u of this color.
 	 *
-	 * The amount of "color" in the color. A lower saturation means the color is more grayer,
-	 * a higher saturation means the color is more colorful.
-	 * @see https://en.wikipedia.org/wiki/HSL_and_HSV#Saturation
-	 * @returns the hsl-saturation of this color.
+	 * The blue-difference chrominance of this color in analog YUV, a number −0.436–0.436.
+	 * @returns the yuv-u of this color
 	 */
-	get hslSat(): Fraction {
-		return new Fraction((this._CHROMA === 0) ? 0 : this._CHROMA / (1 - Math.abs(2 * this.hslLum.valueOf() - 1)))
-		/*
-		 * Prove:
-		 * 1 - |2x - 1| == { x <= 0.5 ? 2x : (2 - 2x) }
-		 * Proof:
-		 * Case A. Let x <= 0.5. Then 2x - 1 <= 0, and |2x - 1| == -(2x - 1).
-		 * Then 1 - |2x - 1| == 1 + (2x - 1) == 2x. //
-		 * Case B. Let 0.5 < x. Then 0 < 2x - 1, and |2x - 1| == 2x - 1.
-		 * Then 1 - |2x - 1| == 1 - (2x - 1) == 2 - 2x. //
-		 */
+	get yuvU(): number {
+		return Color._transform(Color._RGB_YUV, this._RGB)[1]
 	}
 
 	/**
-	 * Get the hsl-luminosity of this color.
+	 * Get the yuv-v of this color.
 	 *
-	 * How "white" or "black" the color is. A lower luminosity means the color is closer to black,
-	 * a higher luminosity means the color is closer to white.
-	 * @see https://en.wikipedia.org/wiki/HSL_and_HSV#Lightness
-	 * @returns the hsl-luminosity of this color.
+	 * The red-difference chrominance of this color in analog YUV, a number −0.615–0.615.
+	 * @returns the yuv-v of this color
 	 */
-	get hslLum(): Fraction {
-		return new Fraction(0.5 * (this._MAX + this._MIN))
+	get yuvV(): number {
+		return Color._transform(Color._RGB_YUV, this._RGB)[2]
 	}
 
 	/**
-	 * Get the hwb-hue of this color.
+	 * Get the yiq-luma of this color.
 	 *
-	 * The Hue of this color. Identical to {@link Color.hsvHue}.
-	 * @returns the hwb-hue of this color
+	 * Identical to {@link Color.yuvLuma}.
+	 * @returns the yiq-luma of this color
 	 */
-	get hwbHue(): Angle {
-		return this.hsvHue
+	get yiqLuma(): number {
+		return Color._transform(Color._RGB_YIQ, this._RGB)[0]
 	}
 
 	/**
-	 * Get the hwb-white of this color.
+	 * Get the yiq-i of this color.
 	 *
-	 * The amount of White in this color. A higher white means the color is closer to #fff,
-	 * a lower white means the color has a true hue (more colorful).
-	 * @returns the hwb-white of this color
+	 * The position of this color along the orange–blue axis of YIQ, a number −0.5957–0.5957.
+	 * @returns the yiq-i of this color
 	 */
-	get hwbWhite(): Fraction {
-		return new Fraction(this._MIN)
+	get yiqI(): number {
+		return Color._transform(Color._RGB_YIQ, this._RGB)[1]
 	}
 
 	/**
-	 * Get the hwb-black of this color.
+	 * Get the yiq-q of this color.
 	 *
-	 * The amount of Black in this color. A higher black means the color is closer to #000,
-	 * a lower black means the color has a true hue (more colorful).
-	 * Identical to {@link Color.cmykBlack}.
-	 * @returns the hwb-black of this color
+	 * The position of this color along the purple–green axis of YIQ, a number −0.5226–0.5226.
+	 * @returns the yiq-q of this color
 	 */
-	get hwbBlack(): Fraction {
-		return this.cmykBlack
+	get yiqQ(): number {
+		return Color._transform(Color._RGB_YIQ, this._RGB)[2]
 	}
 
 	/**
@@ -835,6 +3285,206 @@ export default class Color {
 		return [this.hwbHue, this.hwbWhite, this.hwbBlack, this.alpha]
 	}
 
+	/**
+	 * Get an array of LABA channels.
+	 */
+	get lab(): [number, number, number, Fraction] {
+		return [this.labLightness, this.labA, this.labB, this.alpha]
+	}
+
+	/**
+	 * Get an array of LCHA channels.
+	 */
+	get lch(): [number, number, Angle, Fraction] {
+		return [this.lchLightness, this.lchChroma, this.lchHue, this.alpha]
+	}
+
+	/**
+	 * Get an array of OKLABA channels.
+	 */
+	get oklab(): [number, number, number, Fraction] {
+		return [this.oklabLightness, this.oklabA, this.oklabB, this.alpha]
+	}
+
+	/**
+	 * Get an array of OKLCHA channels.
+	 */
+	get oklch(): [number, number, Angle, Fraction] {
+		return [this.oklchLightness, this.oklchChroma, this.oklchHue, this.alpha]
+	}
+
+	/**
+	 * Get an array of HSIA channels.
+	 */
+	get hsi(): [Angle, Fraction, Fraction, Fraction] {
+		return [this.hsiHue, this.hsiSat, this.hsiInt, this.alpha]
+	}
+
+	/**
+	 * Get an array of YUV channels, followed by alpha.
+	 */
+	get yuv(): [number, number, number, Fraction] {
+		return [...Color._transform(Color._RGB_YUV, this._RGB), this.alpha] as [number, number, number, Fraction]
+	}
+
+	/**
+	 * Get an array of YIQ channels, followed by alpha.
+	 */
+	get yiq(): [number, number, number, Fraction] {
+		return [...Color._transform(Color._RGB_YIQ, this._RGB), this.alpha] as [number, number, number, Fraction]
+	}
+
+	/**
+	 * Get the correlated color temperature of this color, in kelvins.
+	 *
+	 * Estimated from the CIE 1931 chromaticity of this color, using McCamy’s approximation,
+	 * which is most accurate for near-white colors between about 2000K and 12500K.
+	 * The result is not meaningful for colors far from the Planckian locus,
+	 * and is `NaN` for black, which has no chromaticity.
+	 * @see https://en.wikipedia.org/wiki/Color_temperature#Approximation
+	 * @returns the estimated correlated color temperature
+	 */
+	get kelvin(): number {
+		const [x, y, z]: Triple = this._xyz()
+		const n: number = (x / (x + y + z) - 0.3320) / (0.1858 - y / (x + y + z))
+		return 449 * n ** 3 + 3525 * n ** 2 + 6823.3 * n + 5520.33
+	}
+
+	/**
+	 * Get an array of channels in a predefined color space, followed by alpha.
+	 *
+	 * Channels are not clipped: for a color outside the gamut of the given space,
+	 * some channels will lie outside the interval `[0, 1]`.
+	 * @see https://www.w3.org/TR/css-color-4/#predefined
+	 * @param   space a predefined color space; see {@link Color.fromPredefined}
+	 * @returns the three channels of this color in the given space, and its alpha
+	 * @throws  {RangeError} if the given space is not a predefined color space
+	 */
+	predefined(space: ColorSpace): [number, number, number, Fraction] {
+		const predefined: PredefinedSpace|null = Color._PREDEFINED.get(space) || null
+		if (!predefined) throw new RangeError(`Color space ${ColorSpace[space]} is not a predefined color space.`)
+		return [...((space === ColorSpace.SRGB) ? this._RGB : Color._XYZ_predefined(predefined, this._xyz())), this.alpha] as [number, number, number, Fraction]
+	}
+
+	/**
+	 * Get an array of CIE XYZ tristimulus values, followed by alpha.
+	 *
+	 * Equivalent to {@link Color#predefined} with {@link ColorSpace.XYZ_D50} or {@link ColorSpace.XYZ_D65}.
+	 * @param   white the reference white point of the values
+	 * @returns the X, Y, and Z values of this color, where the white point has `Y = 1`, and its alpha
+	 */
+	xyz(white: 'D50'|'D65' = 'D65'): [number, number, number, Fraction] {
+		return this.predefined((white === 'D50') ? ColorSpace.XYZ_D50 : ColorSpace.XYZ_D65)
+	}
+
+	/**
+	 * Get an array of 8-bit digital YCbCr channels, followed by alpha.
+	 *
+	 * Channels are not rounded or clipped.
+	 * @see Color.fromYCbCr
+	 * @param   standard the standard of luma coefficients
+	 * @param   limited  should the channels be in limited range, rather than full range?
+	 * @returns the luma, blue-difference, and red-difference channels of this color, and its alpha
+	 */
+	ycbcr(standard: YCbCrStandard = YCbCrStandard.BT601, limited: boolean = false): [number, number, number, Fraction] {
+		const [kr, kb]: readonly [number, number] = Color._YCBCR.get(standard) !
+		const [red, green, blue]: number[] = (standard === YCbCrStandard.BT2020) ? this.predefined(ColorSpace.REC2020).slice(0, 3) as number[] : this._RGB
+		const y : number = kr * red + (1 - kr - kb) * green + kb * blue
+		const pb: number = (blue - y) / (2 * (1 - kb))
+		const pr: number = (red  - y) / (2 * (1 - kr))
+		return [...((limited) ?
+			[16 + 219 * y, 128 + 224 * pb, 128 + 224 * pr] :
+			[      255 * y, 128 + 255 * pb, 128 + 255 * pr]
+		), this.alpha] as [number, number, number, Fraction]
+	}
+
+	/**
+	 * Return which components of this color are missing in a color space.
+	 *
+	 * A component is missing if it was specified as `none` (for example, `hsl(none 0% 50%)`),
+	 * either in the given space or in an analogous component of the space in which it was specified
+	 * (for example, an HSL-hue specified as `none` is also missing in LCH).
+	 * The hue of an achromatic color is powerless and is also reported as missing;
+	 * in that case, hue getters such as {@link Color.hsvHue} return 0.
+	 * Missing components are ignored when mixing colors; see {@link Color#mix}.
+	 * @see https://www.w3.org/TR/css-color-4/#missing
+	 * @param   space a color space with three coordinates (any space except CMYK)
+	 * @returns whether each of the three coordinates in the given space, then alpha, is missing
+	 * @throws  {RangeError} if the given color space does not have three coordinates
+	 */
+	missing(space: ColorSpace): [boolean, boolean, boolean, boolean] {
+		const explicit: [boolean, boolean, boolean, boolean] = this._missingChannels(space)
+		return [...this._coordinates(space).map((c, i) => explicit[i] || Number.isNaN(c)), explicit[3]] as [boolean, boolean, boolean, boolean]
+	}
+
+	/**
+	 * Return whether this color lies within the gamut of a color space.
+	 *
+	 * The sRGB-derived spaces (HEX, RGB, CMYK, HSV, HSL, and HWB) share the sRGB gamut.
+	 * Spaces with no gamut limits (CIE XYZ, Lab, LCH, OKLab, and OKLCH) contain every color.
+	 * A small tolerance allows for floating-point error in conversions.
+	 * @param   space the color space to check
+	 * @returns are all of this color’s channels in the given space within the interval `[0, 1]`?
+	 */
+	inGamut(space: ColorSpace = ColorSpace.SRGB): boolean {
+		const gamut: ColorSpace|null = Color._gamut(space)
+		const epsilon: number = 0.000075
+		return gamut === null || this.predefined(gamut).slice(0, 3).every((c) => -epsilon <= c && c <= 1 + epsilon)
+	}
+
+	/**
+	 * Return a version of this color mapped into the gamut of a color space, preserving alpha.
+	 *
+	 * If this color is already in the gamut (see {@link Color#inGamut}), the result will be equal to it.
+	 * - {@link GamutMapping.CLIP} clips each channel of the space to `[0, 1]`.
+	 * - {@link GamutMapping.CSS} (the default) follows the CSS Color 4 algorithm:
+	 *   it reduces OKLCH-chroma by binary search, preserving lightness and hue,
+	 *   until clipping the color changes it by less than a “just noticeable difference” (ΔEOK of 0.02).
+	 *   Colors at least as light as white map to white, and colors at least as dark as black map to black.
+	 * @see https://www.w3.org/TR/css-color-4/#gamut-mapping
+	 * @param   space  the color space whose gamut to map into
+	 * @param   method the gamut-mapping method to use
+	 * @returns a new Color object in the gamut of the given space
+	 */
+	toGamut(space: ColorSpace = ColorSpace.SRGB, method: GamutMapping = GamutMapping.CSS): Color {
+		const gamut: ColorSpace|null = Color._gamut(space)
+		if (gamut === null || this.inGamut(space)) return this
+		const predefined: PredefinedSpace = Color._PREDEFINED.get(gamut) !
+		const toGamutSpace = (oklab: Triple): Triple => Color._XYZ_predefined(predefined, Color._OKLab_XYZ(oklab))
+		const clip = (oklab: Triple): Triple => toGamutSpace(oklab).map((c) => xjs.Math.clamp(0, c, 1)) as Triple
+		const fromGamutSpace = (values: Triple): Color => Color.fromPredefined(gamut, ...values, this.alpha)
+		if (method === GamutMapping.CLIP) return fromGamutSpace(clip(this._oklab()))
+
+		const jnd    : number = 0.02
+		const epsilon: number = 0.0001
+		const [lightness, chroma, hue]: [number, number, Angle] = this.oklch.slice(0, 3) as [number, number, Angle]
+		if (lightness >= 1) return fromGamutSpace([1, 1, 1])
+		if (lightness <= 0) return fromGamutSpace([0, 0, 0])
+		const oklabAt = (c: number): Triple => [lightness, c * hue.cos, c * hue.sin]
+		let clipped: Triple = clip(this._oklab())
+		if (Color._deltaEOK(Color._XYZ_OKLab(Color._predefined_XYZ(predefined, clipped)), this._oklab()) < jnd) return fromGamutSpace(clipped)
+		let [min, max]: [number, number] = [0, chroma]
+		let min_in_gamut: boolean = true
+		while (max - min > epsilon) {
+			const c: number = (min + max) / 2
+			const current: Triple = oklabAt(c)
+			if (min_in_gamut && toGamutSpace(current).every((v) => 0 <= v && v <= 1)) {
+				min = c
+				continue
+			}
+			clipped = clip(current)
+			const delta: number = Color._deltaEOK(Color._XYZ_OKLab(Color._predefined_XYZ(predefined, clipped)), current)
+			if (delta < jnd) {
+				if (jnd - delta < epsilon) break
+				min_in_gamut = false
+				min = c
+			} else {
+				max = c
+			}
+		}
+		return fromGamutSpace(clipped)
+	}
+
 	/**
 	 * Return a string representation of this color, as a valid CSS color string.
 	 *
@@ -843,33 +3493,131 @@ export default class Color {
 	 * Otherwise, the string returned represents a translucent color,
 	 * `hsv(h s v / a)`, `hsl(h s l / a)`, etc.
 	 *
-	 * Numerical values are as follows:
+	 * By default, numerical values are as follows:
 	 * - HEX   values are unitless base 16 integers in [00,ff], two digits
 	 * - RGB   values are unitless base 10 integers in [0,255], one to three digits
 	 * - CMYK  values are unitless base 10 decimals in [0,1]
 	 * - alpha values are unitless base 10 decimals in [0,1]
 	 * - HSV/HSL/HWB-hue values are base 10 decimals in [0,1), expressed in turns (a unit of angle)
 	 * - HSV/HSL-sat/val/lum and HWB-white/black values are base 10 decimals in [0,1], expressed in percentages
+	 * - LAB/LCH-lightness values are unitless base 10 decimals in [0,100]
+	 * - OKLAB/OKLCH-lightness values are unitless base 10 decimals in [0,1]
+	 * - HSI-hue values are as HSV-hue values, and HSI-sat/int values are as HSV-sat/val values
+	 * - YUV and YIQ values are unitless base 10 decimals, luma in [0,1]
+	 * - YCBCR values are unitless base 10 decimals in [0,255], 8-bit full-range BT.601, as in JPEG
+	 * - LAB-a/b, OKLAB-a/b, and LCH/OKLCH-chroma values are unitless base 10 decimals
+	 * - LCH/OKLCH-hue values are base 10 decimals in [0,1), expressed in turns
+	 * - values of predefined color spaces, `color(space c1 c2 c3)`, are unitless base 10 decimals,
+	 *   typically in [0,1] but unclipped for colors outside the gamut of the space
+	 *
+	 * Components specified as missing (see {@link Color#missing}) are written as `none`,
+	 * except in the legacy comma-separated syntax, where they are written as zero.
+	 * Powerless hues of achromatic colors are written as zero.
+	 *
+	 * The given options change these defaults.
+	 * Percentages, when requested, resolve against the same references as in {@link Color.fromString}:
+	 * for example, 255 for RGB, 100 for HSL-sat, 125 for LAB-a/b, and 0.4 for OKLCH-chroma.
 	 * @override Object
 	 * @param   space represents the space in which this color exists
+	 * @param   options the formatting options
 	 * @returns a string representing this color
 	 */
-	toString(space: ColorSpace = ColorSpace.HEX): string {
-		const PERCENT_FORMAT: Intl.NumberFormat = Intl.NumberFormat('en', { style: 'percent', maximumFractionDigits: 20 })
-		const leadingZero = (n: number, radix: number = 10) => `0${n.toString(radix)}`.slice(-2)
+	toString(space: ColorSpace = ColorSpace.HEX, options: ColorStringOptions = {}): string {
+		const {
+			precision,
+			hueUnit    = AngleUnit.TURN,
+			legacy     = false,
+			uppercase  = false,
+			forceAlpha = false,
+			percent,
+			shortHex   = false,
+		} = options
+		const show_alpha: boolean = forceAlpha || this.alpha.lessThan(1)
 		if (space === ColorSpace.HEX) {
-			return `#${this.rgb.slice(0,3).map((c) => leadingZero(Math.round(c.of(255)), 16)).join('')}${(this.alpha.lessThan(1)) ? leadingZero(Math.round(this.alpha.of(255)), 16) : ''}`
+			const bytes: string[] = [...this.rgb.slice(0,3), ...(show_alpha ? [this.alpha] : [])]
+				.map((c) => `0${Math.round(c.of(255)).toString(16)}`.slice(-2))
+			const hex: string = (shortHex && bytes.every((b) => b[0] === b[1])) ? bytes.map((b) => b[0]).join('') : bytes.join('')
+			return `#${(uppercase) ? hex.toUpperCase() : hex}`
+		}
+		const PERCENT_FORMAT: Intl.NumberFormat = Intl.NumberFormat('en', { style: 'percent', maximumFractionDigits: (precision !== void 0) ? precision : 20 })
+		const number = (n: number): string => (precision !== void 0) ? `${+n.toFixed(precision)}` : `${n}`
+		const hue    = (angle: Angle): string => `${number(angle.convert(hueUnit))}${AngleUnit[hueUnit].toLowerCase()}`
+		/**
+		 * Format a channel value as a number or a percentage.
+		 * @param   value the value of the channel
+		 * @param   reference the value of the channel corresponding to 100%
+		 * @returns the formatted channel
+		 */
+		function channel(value: number, reference: number): string {
+			return (percent) ? PERCENT_FORMAT.format(value / reference) : number(value)
+		}
+		/**
+		 * Format a bounded channel, given as a proportion, as a number or a percentage.
+		 * @param   value the proportion of the channel
+		 * @param   reference the value of the channel corresponding to 100%
+		 * @param   as_percent should the value be a percentage, if not otherwise specified?
+		 * @returns the formatted channel
+		 */
+		function fraction(value: Fraction, reference: number, as_percent: boolean = false): string {
+			return ((percent !== void 0) ? percent : as_percent) ? PERCENT_FORMAT.format(value.valueOf()) : number(value.of(reference))
+		}
+		/**
+		 * Format a non-hue channel of HSV, HSL, or HWB, which must be a percentage in legacy syntax.
+		 * @param   value the proportion of the channel
+		 * @returns the formatted channel
+		 */
+		function cylindrical(value: Fraction): string {
+			return (legacy) ? PERCENT_FORMAT.format(value.valueOf()) : fraction(value, 100, true)
+		}
+		const missing: boolean[] = (legacy && [ColorSpace.RGB, ColorSpace.CMYK, ColorSpace.HSV, ColorSpace.HSL, ColorSpace.HWB].includes(space)) ?
+			[false, false, false, false] : // missing components cannot be written in legacy syntax
+			this._missingChannels(space)
+		const alpha: string = (missing[3]) ? 'none' : fraction(this.alpha, 1)
+		if (Color._PREDEFINED.has(space)) {
+			return `color(${Color._PREDEFINED.get(space) !.name} ${this.predefined(space).slice(0,3).map((c, i) => (missing[i]) ? 'none' : channel(c.valueOf(), 1)).join(' ')}${
+				(show_alpha || missing[3]) ? ` / ${alpha}` : ''
+			})`
 		}
 		const returned: string[] = new Map<ColorSpace, () => string[]>([
-			[ColorSpace.RGB  , () => this.rgb .slice(0,3).map((c) => `${Math.round(c.of(255))}`) ],
-			[ColorSpace.CMYK , () => this.cmyk.slice(0,4).map((c) => `${c}`) ],
-			[ColorSpace.HSV  , () => [this.hsvHue.toString(10, AngleUnit.TURN), PERCENT_FORMAT.format(this.hsvSat  .valueOf()), PERCENT_FORMAT.format(this.hsvVal  .valueOf())] ],
-			[ColorSpace.HSL  , () => [this.hslHue.toString(10, AngleUnit.TURN), PERCENT_FORMAT.format(this.hslSat  .valueOf()), PERCENT_FORMAT.format(this.hslLum  .valueOf())] ],
-			[ColorSpace.HWB  , () => [this.hwbHue.toString(10, AngleUnit.TURN), PERCENT_FORMAT.format(this.hwbWhite.valueOf()), PERCENT_FORMAT.format(this.hwbBlack.valueOf())] ],
-		]).get(space) !()
-		return `${ColorSpace[space].toLowerCase()}(${returned.join(' ')}${
-			(this.alpha.lessThan(1)) ? ` / ${this.alpha}` : ''
-		})`
+			[ColorSpace.RGB  , () => this.rgb.slice(0,3).map((c) => (percent === void 0 && precision === void 0) ? `${Math.round(c.of(255))}` : fraction(c, 255)) ],
+			[ColorSpace.CMYK , () => this.cmyk.slice(0,4).map((c) => fraction(c, 1)) ],
+			[ColorSpace.HSV  , () => [hue(this.hsvHue), cylindrical(this.hsvSat  ), cylindrical(this.hsvVal  )] ],
+			[ColorSpace.HSL  , () => [hue(this.hslHue), cylindrical(this.hslSat  ), cylindrical(this.hslLum  )] ],
+			[ColorSpace.HWB  , () => [hue(this.hwbHue), cylindrical(this.hwbWhite), cylindrical(this.hwbBlack)] ],
+			[ColorSpace.LAB  , () => [channel(this.labLightness  , 100), channel(this.labA     , 125), channel(this.labB  , 125)] ],
+			[ColorSpace.LCH  , () => [channel(this.lchLightness  , 100), channel(this.lchChroma, 150), hue(this.lchHue)] ],
+			[ColorSpace.OKLAB, () => [channel(this.oklabLightness, 1  ), channel(this.oklabA     , 0.4), channel(this.oklabB, 0.4)] ],
+			[ColorSpace.OKLCH, () => [channel(this.oklchLightness, 1  ), channel(this.oklchChroma, 0.4), hue(this.oklchHue)] ],
+			[ColorSpace.HSI  , () => [hue(this.hsiHue), fraction(this.hsiSat, 100, true), fraction(this.hsiInt, 100, true)] ],
+			[ColorSpace.YUV  , () => this.yuv    .slice(0,3).map((c) => channel(c as number, 1  )) ],
+			[ColorSpace.YIQ  , () => this.yiq    .slice(0,3).map((c) => channel(c as number, 1  )) ],
+			[ColorSpace.YCBCR, () => this.ycbcr().slice(0,3).map((c) => channel(c as number, 255)) ],
+		]).get(space) !().map((c, i) => (space !== ColorSpace.CMYK && missing[i]) ? 'none' : c)
+		const name: string = ColorSpace[space].toLowerCase()
+		return (legacy && [ColorSpace.RGB, ColorSpace.CMYK, ColorSpace.HSV, ColorSpace.HSL, ColorSpace.HWB].includes(space)) ?
+			`${name}${(show_alpha) ? 'a' : ''}(${[...returned, ...(show_alpha ? [alpha] : [])].join(', ')})` :
+			`${name}(${returned.join(' ')}${(show_alpha || missing[3]) ? ` / ${alpha}` : ''})`
+	}
+
+	/**
+	 * Return a JSON representation of this color, called by `JSON.stringify`.
+	 *
+	 * The representation is lossless: by default, its channels are this color’s extended sRGB channels, at full precision.
+	 * If this color has missing components (see {@link Color#missing}), it is represented in the space in which
+	 * they were specified, with `null` in place of each missing component (and of any powerless hue),
+	 * and is lossless only up to floating-point rounding.
+	 * To serialize colors as CSS strings instead, use {@link Color.replacer}.
+	 * @see Color.fromJSON
+	 * @returns an object with the name of a color space, the channels in that space, and alpha
+	 */
+	toJSON(): ColorJSON {
+		const space: ColorSpace = (this._MISSING !== null && this._MISSING.space !== ColorSpace.CMYK) ? this._MISSING.space : ColorSpace.SRGB
+		const missing: boolean[] = this._missingChannels(space)
+		return {
+			space   : ColorSpace[space],
+			channels: this._coordinates(space).map((c, i) => (missing[i] || Number.isNaN(c)) ? null : c),
+			alpha   : (missing[3]) ? null : this.alpha.valueOf(),
+		}
 	}
 
 	/**
@@ -890,16 +3638,29 @@ export default class Color {
 	/**
 	 * Return a hue-rotation of this color, preserving alpha.
 	 *
+	 * The hue is rotated within the given color space, which must have a hue channel.
+	 * HSV, HSL, and HWB share the same hue, so rotating in any of them yields the same result.
+	 * Rotating in HSI preserves the average of the RGB channels.
+	 * Rotating in OKLCH (or LCH) preserves perceived lightness and chroma,
+	 * so evenly spaced rotations look evenly spaced.
 	 * @param   theta the angle to rotate, or a number of degrees
+	 * @param   space the color space in which to rotate: one of HSV, HSL, HWB, HSI, LCH, or OKLCH
 	 * @returns a new Color object corresponding to this color rotated by `theta` degrees
+	 * @throws  {RangeError} if the given color space does not have a hue channel
 	 */
-	rotate(theta: Angle|number): Color {
-		return (theta instanceof Angle) ? Color.fromHSV(
-			this.hsvHue.plus(theta),
-			this.hsvSat,
-			this.hsvVal,
-			this.alpha
-		) : this.rotate(new Angle(theta / Angle.CONVERSION[AngleUnit.DEG]))
+	rotate(theta: Angle|number, space: ColorSpace = ColorSpace.HSV): Color {
+		if (!(theta instanceof Angle)) return this.rotate(new Angle(theta / Angle.CONVERSION[AngleUnit.DEG]), space)
+		const rotateHSV = () => Color.fromHSV(this.hsvHue.plus(theta).canon, this.hsvSat, this.hsvVal, this.alpha)
+		const rotator: (() => Color)|null = new Map<ColorSpace, () => Color>([
+			[ColorSpace.HSV  , rotateHSV],
+			[ColorSpace.HSL  , rotateHSV],
+			[ColorSpace.HWB  , rotateHSV],
+			[ColorSpace.HSI  , () => Color.fromHSI(this.hsiHue.plus(theta).canon, this.hsiSat, this.hsiInt, this.alpha)],
+			[ColorSpace.LCH  , () => Color.fromLCH  (this.lchLightness  , this.lchChroma  , this.lchHue  .plus(theta), this.alpha)],
+			[ColorSpace.OKLCH, () => Color.fromOKLCH(this.oklchLightness, this.oklchChroma, this.oklchHue.plus(theta), this.alpha)],
+		]).get(space) || null
+		if (!rotator) throw new RangeError(`Color space ${ColorSpace[space]} does not have a hue channel.`)
+		return rotator()
 	}
 
 	/**
@@ -912,6 +3673,112 @@ export default class Color {
 		return this.rotate(Angle.STRAIGHT)
 	}
 
+	/**
+	 * Return an analogous color scheme: this color and its neighbors on the hue wheel.
+	 * @param   theta the angle between neighbors, or a number of degrees
+	 * @param   space the color space in which to rotate; see {@link Color#rotate}
+	 * @returns an array of this color, followed by this color rotated by `theta` and by `-theta`
+	 * @throws  {RangeError} if the given color space does not have a hue channel
+	 */
+	analogous(theta: Angle|number = 30, space: ColorSpace = ColorSpace.HSV): Color[] {
+		if (!(theta instanceof Angle)) return this.analogous(new Angle(theta / Angle.CONVERSION[AngleUnit.DEG]), space)
+		return [this, this.rotate(theta, space), this.rotate(theta.scale(-1), space)]
+	}
+
+	/**
+	 * Return a triadic color scheme: three colors evenly spaced on the hue wheel.
+	 * @param   space the color space in which to rotate; see {@link Color#rotate}
+	 * @returns an array of this color, followed by this color rotated by 120 and 240 degrees
+	 * @throws  {RangeError} if the given color space does not have a hue channel
+	 */
+	triadic(space: ColorSpace = ColorSpace.HSV): Color[] {
+		return [this, this.rotate(120, space), this.rotate(240, space)]
+	}
+
+	/**
+	 * Return a tetradic color scheme: two pairs of complementary colors.
+	 *
+	 * By default the four colors form a square on the hue wheel;
+	 * specify a different angle to form a rectangle.
+	 * @param   theta the angle between this color and the next, or a number of degrees
+	 * @param   space the color space in which to rotate; see {@link Color#rotate}
+	 * @returns an array of this color, followed by this color rotated by `theta`, by 180 degrees, and by `theta` + 180 degrees
+	 * @throws  {RangeError} if the given color space does not have a hue channel
+	 */
+	tetradic(theta: Angle|number = 90, space: ColorSpace = ColorSpace.HSV): Color[] {
+		if (!(theta instanceof Angle)) return this.tetradic(new Angle(theta / Angle.CONVERSION[AngleUnit.DEG]), space)
+		return [this, this.rotate(theta, space), this.rotate(Angle.STRAIGHT, space), this.rotate(theta.plus(Angle.STRAIGHT), space)]
+	}
+
+	/**
+	 * Return a split-complementary color scheme: this color and the two neighbors of its complement.
+	 * @param   theta the angle between the complement and each of its neighbors, or a number of degrees
+	 * @param   space the color space in which to rotate; see {@link Color#rotate}
+	 * @returns an array of this color, followed by this color rotated by 180 degrees minus and plus `theta`
+	 * @throws  {RangeError} if the given color space does not have a hue channel
+	 */
+	splitComplementary(theta: Angle|number = 30, space: ColorSpace = ColorSpace.HSV): Color[] {
+		if (!(theta instanceof Angle)) return this.splitComplementary(new Angle(theta / Angle.CONVERSION[AngleUnit.DEG]), space)
+		return [this, this.rotate(Angle.STRAIGHT.minus(theta), space), this.rotate(Angle.STRAIGHT.plus(theta), space)]
+	}
+
+	/**
+	 * Return a monochromatic color scheme: colors of this color’s hue and chroma, with varying lightness.
+	 *
+	 * Lightnesses are evenly spaced in OKLCH, from dark to light, excluding black and white.
+	 * Colors are {@link Color#toGamut|mapped} into the sRGB gamut, reducing chroma where necessary.
+	 * @param   n the number of colors to return
+	 * @returns an array of `n` colors, from darkest to lightest
+	 * @throws  {RangeError} if `n` is not a non-negative integer
+	 */
+	monochromatic(n: number = 5): Color[] {
+		if (!Number.isInteger(n) || n < 0) throw new RangeError(`Invalid number of colors: ${n}.`)
+		return [...new Array(n)].map((_, i) => Color.fromOKLCH((i + 1) / (n + 1), this.oklchChroma, this.oklchHue, this.alpha).toGamut())
+	}
+
+	/**
+	 * Return a ladder of tints and shades of this color, as used in design systems.
+	 *
+	 * Each step is a number, such as those of the common scale 50, 100, 200, …, 900.
+	 * The `base` step is this color; lower steps are tints (lighter) and higher steps are shades (darker).
+	 * Lightness is evenly spaced in the given perceptual space, from the `lightest` value at the lowest step,
+	 * through this color’s lightness at the `base` step, to the `darkest` value at the highest step,
+	 * while hue and chroma are preserved.
+	 * Colors are {@link Color#toGamut|mapped} into the sRGB gamut, reducing chroma where necessary.
+	 * @param   steps the steps of the ladder
+	 * @param   options the ladder options
+	 * @param   options.base the step at which this color is placed (default 500)
+	 * @param   options.lightest the lightness at the lowest step, as a fraction of the full lightness range (default 0.97)
+	 * @param   options.darkest the lightness at the highest step, as a fraction of the full lightness range (default 0.25)
+	 * @param   options.space the color space in which to space lightness: either LCH or OKLCH (default)
+	 * @returns a map from each step to its color
+	 * @throws  {RangeError} if the given color space is not LCH or OKLCH
+	 */
+	ladder(steps: readonly number[] = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900], options: {
+		base?: number;
+		lightest?: Fraction|number;
+		darkest?: Fraction|number;
+		space?: ColorSpace;
+	} = {}): Map<number, Color> {
+		const { base = 500, space = ColorSpace.OKLCH } = options
+		const [lightest, darkest]: number[] = [
+			(options.lightest !== void 0) ? options.lightest : 0.97,
+			(options.darkest  !== void 0) ? options.darkest  : 0.25,
+		].map((p) => new Fraction(p).valueOf())
+		const builder: ((lightness: number) => Color)|null = new Map<ColorSpace, (lightness: number) => Color>([
+			[ColorSpace.LCH  , (lightness) => Color.fromLCH  (lightness * 100, this.lchChroma  , this.lchHue  , this.alpha)],
+			[ColorSpace.OKLCH, (lightness) => Color.fromOKLCH(lightness      , this.oklchChroma, this.oklchHue, this.alpha)],
+		]).get(space) || null
+		if (!builder) throw new RangeError(`Color space ${ColorSpace[space]} cannot be used for a ladder.`)
+		const lightness: number = (space === ColorSpace.LCH) ? this.lchLightness / 100 : this.oklchLightness
+		const [min, max]: number[] = [Math.min(...steps), Math.max(...steps)]
+		return new Map<number, Color>(steps.map((step): [number, Color] => [step,
+			(step === base) ? this :
+			(step <  base) ? builder(xjs.Math.interpolateArithmetic(lightest, lightness, (step - min) / (base - min))).toGamut() :
+			                 builder(xjs.Math.interpolateArithmetic(lightness, darkest, (step - base) / (max - base))).toGamut()
+		]))
+	}
+
 	/**
 	 * Return a more saturated (more colorful) version of this color by a percentage.
 	 *
@@ -954,7 +3821,10 @@ export default class Color {
 	/**
 	 * Return a lighter version of this color by a percentage.
 	 *
-	 * This method calculates with luminosity in the HSL space.
+	 * This method calculates with luminosity in the HSL space by default.
+	 * Specify {@link ColorSpace.LCH} or {@link ColorSpace.OKLCH} (or their rectangular forms)
+	 * to calculate with perceptual lightness instead, which keeps the steps visually even;
+	 * in those spaces, the amount is a fraction of the full lightness range.
 	 * A parameter of 1.0 returns white, and 0.0 returns an identical color.
 	 * Set `relative = true` to specify the amount as relative to the color’s current luminosity.
 	 *
@@ -966,16 +3836,34 @@ export default class Color {
 	 *
 	 * @param   p the amount by which to lighten this color
 	 * @param   relative should the luminosity added be relative?
+	 * @param   space the color space in which to lighten: one of HSL, LAB, LCH, OKLAB, or OKLCH
 	 * @returns a new Color object that corresponds to this color lightened by `p`
+	 * @throws  {RangeError} if the given color space does not have a lightness channel
 	 */
-	lighten(p: Fraction|number, relative: boolean = false): Color {
-		p = p.valueOf()
-		return Color.fromHSL(
-			this.hslHue,
-			this.hslSat,
-			this.hslLum.plusClamp((relative) ? p * this.hslLum.valueOf() : p),
+	lighten(p: Fraction|number, relative: boolean = false, space: ColorSpace = ColorSpace.HSL): Color {
+		const amount: number = p.valueOf()
+		const lightenFraction = (lightness: Fraction): Fraction => new Fraction(xjs.Math.clamp(0, lightness.valueOf() + ((relative) ? amount * lightness.valueOf() : amount), 1))
+		const lightenLab = () => Color.fromLab(
+			lightenFraction(new Fraction(xjs.Math.clamp(0, this.labLightness / 100, 1))).of(100),
+			this.labA,
+			this.labB,
+			this.alpha
+		)
+		const lightenOKLab = () => Color.fromOKLab(
+			lightenFraction(new Fraction(xjs.Math.clamp(0, this.oklabLightness, 1))).valueOf(),
+			this.oklabA,
+			this.oklabB,
 			this.alpha
 		)
+		const lightener: (() => Color)|null = new Map<ColorSpace, () => Color>([
+			[ColorSpace.HSL  , () => Color.fromHSL(this.hslHue, this.hslSat, lightenFraction(this.hslLum), this.alpha)],
+			[ColorSpace.LAB  , lightenLab],
+			[ColorSpace.LCH  , lightenLab],
+			[ColorSpace.OKLAB, lightenOKLab],
+			[ColorSpace.OKLCH, lightenOKLab],
+		]).get(space) || null
+		if (!lightener) throw new RangeError(`Color space ${ColorSpace[space]} does not have a lightness channel.`)
+		return lightener()
 	}
 
 	/**
@@ -984,10 +3872,100 @@ export default class Color {
 	 * A parameter of 1.0 returns black, and 0.0 returns an identical color.
 	 * @param   p the amount by which to darken this color
 	 * @param   relative should the luminosity subtracted be relative?
+	 * @param   space the color space in which to darken; see {@link Color#lighten}
 	 * @returns a new Color object that corresponds to this color darkened by `p`
+	 * @throws  {RangeError} if the given color space does not have a lightness channel
+	 */
+	darken(p: Fraction|number, relative: boolean = false, space: ColorSpace = ColorSpace.HSL): Color {
+		return this.lighten(-p, relative, space)
+	}
+
+	/**
+	 * Return the result of blending this color (the source) over a backdrop color, using a blend mode.
+	 *
+	 * The blended color is computed from the sRGB channels of the source and backdrop,
+	 * as if this color were drawn over the backdrop with the CSS `mix-blend-mode` property.
+	 * Where the backdrop is translucent, the source shows through unblended,
+	 * and the result is then composited over the backdrop with the source’s alpha.
+	 * @see https://www.w3.org/TR/compositing-1/#blending
+	 * @param   backdrop the color behind this color
+	 * @param   mode the blend mode
+	 * @returns a new Color object representing the blended color
+	 */
+	blend(backdrop: Color, mode: BlendMode = BlendMode.NORMAL): Color {
+		const cs: Triple = [this    .red, this    .green, this    .blue].map((c) => c.valueOf()) as Triple
+		const cb: Triple = [backdrop.red, backdrop.green, backdrop.blue].map((c) => c.valueOf()) as Triple
+		const [as, ab]: number[] = [this.alpha.valueOf(), backdrop.alpha.valueOf()]
+		const blended: Triple = Color._blend(mode, cb, cs)
+		const alpha: number = as + ab * (1 - as)
+		return new Color(cs.map((s, i) => (alpha === 0) ? 0 :
+			(as * ((1 - ab) * s + ab * blended[i]) + ab * (1 - as) * cb[i]) / alpha
+		) as Triple, alpha)
+	}
+
+	/**
+	 * Composite this color (the source) with a destination color, using a Porter–Duff operator.
+	 *
+	 * By default, the channels of both colors are taken to be straight (not premultiplied by alpha),
+	 * and the result is returned with straight channels, as in CSS and the HTML canvas.
+	 * If `premultiplied` is `true`, the channels of both colors are taken to be already premultiplied by alpha,
+	 * and the result is returned with premultiplied channels, as in many image buffers.
+	 * @see https://www.w3.org/TR/compositing-1/#porterduffcompositingoperators
+	 * @param   destination the color behind this color
+	 * @param   operator the compositing operator
+	 * @param   premultiplied are the channels of the colors premultiplied by alpha?
+	 * @returns a new Color object representing the composited color
+	 */
+	composite(destination: Color, operator: CompositeOperator = CompositeOperator.SOURCE_OVER, premultiplied: boolean = false): Color {
+		const [as, ab]: number[] = [this.alpha.valueOf(), destination.alpha.valueOf()]
+		const [fa, fb]: number[] = new Map<CompositeOperator, [number, number]>([
+			[CompositeOperator.CLEAR           , [0     , 0     ]],
+			[CompositeOperator.COPY            , [1     , 0     ]],
+			[CompositeOperator.DESTINATION     , [0     , 1     ]],
+			[CompositeOperator.SOURCE_OVER     , [1     , 1 - as]],
+			[CompositeOperator.DESTINATION_OVER, [1 - ab, 1     ]],
+			[CompositeOperator.SOURCE_IN       , [ab    , 0     ]],
+			[CompositeOperator.DESTINATION_IN  , [0     , as    ]],
+			[CompositeOperator.SOURCE_OUT      , [1 - ab, 0     ]],
+			[CompositeOperator.DESTINATION_OUT , [0     , 1 - as]],
+			[CompositeOperator.SOURCE_ATOP     , [ab    , 1 - as]],
+			[CompositeOperator.DESTINATION_ATOP, [1 - ab, as    ]],
+			[CompositeOperator.XOR             , [1 - ab, 1 - as]],
+			[CompositeOperator.LIGHTER         , [1     , 1     ]],
+		]).get(operator) !
+		const [cs, cb]: Triple[] = (premultiplied) ? [this._RGB, destination._RGB] : [
+			this       ._RGB.map((c) => c * as) as Triple,
+			destination._RGB.map((c) => c * ab) as Triple,
+		]
+		const alpha: number = Math.min(as * fa + ab * fb, 1)
+		const co: Triple = cs.map((c, i) => c * fa + cb[i] * fb) as Triple
+		return new Color(((operator === CompositeOperator.LIGHTER) ? co.map((c) => Math.min(c, 1)) as Triple : co).map((c) =>
+			(premultiplied) ? c : (alpha === 0) ? 0 : c / alpha
+		) as Triple, alpha)
+	}
+
+	/**
+	 * Return a simulation of how this color is perceived with a color vision deficiency.
+	 *
+	 * The simulation is performed in linear-light sRGB.
+	 * A severity of 1.0 simulates a dichromacy (e.g. protanopia), and a lesser severity
+	 * simulates the corresponding anomalous trichromacy (e.g. protanomaly),
+	 * by interpolating between the full simulation matrix and the identity.
+	 * A severity of 0.0 returns an identical color.
+	 * The result is clipped to the sRGB gamut; alpha is preserved.
+	 * @see https://www.inf.ufrgs.br/~oliveira/pubs_files/CVD_Simulation/CVD_Simulation.html
+	 * @param   deficiency the type of color vision deficiency
+	 * @param   severity the severity of the deficiency
+	 * @returns a new Color object simulating this color as perceived with the deficiency
 	 */
-	darken(p: Fraction|number, relative: boolean = false): Color {
-		return this.lighten(-p, relative)
+	simulate(deficiency: ColorVisionDeficiency, severity: Fraction|number = 1): Color {
+		const s: number = new Fraction(severity).valueOf()
+		if (s === 0) return this
+		const matrix: MatrixSquare = new MatrixSquare(Color._CVD.get(deficiency) !.raw.map((row, i) =>
+			row.map((cell, j) => xjs.Math.interpolateArithmetic((i === j) ? 1 : 0, cell, s))
+		))
+		const rgb_lin: Triple = Color._transform(matrix, this._RGB.map((c) => Color._sRGB_Linear(c)) as Triple)
+		return Color._fromLinearSRGB(rgb_lin.map((c) => xjs.Math.clamp(0, c, 1)) as Triple, this.alpha)
 	}
 
 	/**
@@ -997,7 +3975,7 @@ export default class Color {
 	 * @returns a new Color object with the same color but complemented alpha
 	 */
 	negate(): Color {
-		return new Color(this.red, this.green, this.blue, this.alpha.conjugate)
+		return new Color(this._RGB, this.alpha.conjugate)
 	}
 
 	/**
@@ -1019,9 +3997,7 @@ export default class Color {
 	fadeIn(p: Fraction|number, relative: boolean = false): Color {
 		p = p.valueOf()
 		return new Color(
-			this.red,
-			this.green,
-			this.blue,
+			this._RGB,
 			this.alpha.plusClamp((relative) ? p * this.alpha.valueOf() : p)
 		)
 	}
@@ -1042,7 +4018,15 @@ export default class Color {
 	/**
 	 * Mix (average) another color with this color, with a given weight favoring that color.
 	 *
-	 * This method performs a linear interpolation of each channel of the colors.
+	 * By default, this method performs a linear interpolation of each sRGB channel of the colors,
+	 * and compounds their opacities.
+	 *
+	 * If an interpolation space is given, the colors are instead mixed as specified by CSS `color-mix()`:
+	 * their coordinates in that space are premultiplied by alpha and linearly interpolated,
+	 * and their alphas are linearly interpolated.
+	 * In a cylindrical space (HSV, HSL, HWB, LCH, or OKLCH), hues are interpolated using the given method.
+	 * A missing component of one color (see {@link Color#missing}), such as the hue of an achromatic color,
+	 * takes on the value of the other color; if it is missing in both colors, it is missing in the result.
 	 *
 	 * - If `weight === 0.0`, returns exactly this color.
 	 * - If `weight === 1.0`, return exactly the other color.
@@ -1050,11 +4034,37 @@ export default class Color {
 	 *
 	 * In other words, `weight` is "how much of the other color you want."
 	 * Note that `color1.mix(color2, weight)` returns the same result as `color2.mix(color1, 1-weight)`.
+	 * @see https://www.w3.org/TR/css-color-5/#color-mix
 	 * @param   color the second color
 	 * @param   weight the weight favoring the other color
+	 * @param   options the interpolation options
+	 * @param   options.space the color space in which to interpolate (any space except CMYK)
+	 * @param   options.hueInterpolation the hue interpolation method, if the space is cylindrical
 	 * @returns a mix of the two given colors
+	 * @throws  {RangeError} if the given color space cannot be used for interpolation
 	 */
-	mix(color: Color, weight: number = 0.5): Color {
+	mix(color: Color, weight: number = 0.5, options: { space?: ColorSpace; hueInterpolation?: HueInterpolation; } = {}): Color {
+		const { space, hueInterpolation = HueInterpolation.SHORTER } = options
+		if (space !== void 0) {
+			const hue_channel: number|null = Color._hueChannel(space)
+			const [missing1, missing2]: boolean[][] = [this.missing(space), color.missing(space)]
+			const values1: number[] = [...this ._coordinates(space), this .alpha.valueOf()]
+			const values2: number[] = [...color._coordinates(space), color.alpha.valueOf()]
+			values1.forEach((_c, i) => {
+				if (missing1[i] && missing2[i]) values1[i] = values2[i] = 0
+				else if (missing1[i]) values1[i] = values2[i]
+				else if (missing2[i]) values2[i] = values1[i]
+			})
+			if (hue_channel !== null) {
+				;[values1[hue_channel], values2[hue_channel]] = Color._fixupHues(values1[hue_channel], values2[hue_channel], hueInterpolation)
+			}
+			const [a1, a2]: number[] = [values1[3], values2[3]]
+			const alpha: number = xjs.Math.interpolateArithmetic(a1, a2, weight)
+			return Color._withMissing(Color._fromCoordinates(space, values1.slice(0, 3).map((c, i) => (i === hue_channel) ?
+				xjs.Math.interpolateArithmetic(c, values2[i], weight) :
+				xjs.Math.interpolateArithmetic(c * a1, values2[i] * a2, weight) / (alpha || 1)
+			) as Triple, new Fraction(alpha)), space, missing1.map((m, i) => m && missing2[i]))
+		}
 		return new Color(
 			new Fraction(xjs.Math.interpolateArithmetic(this.red  .valueOf(), color.red  .valueOf(), weight)),
 			new Fraction(xjs.Math.interpolateArithmetic(this.green.valueOf(), color.green.valueOf(), weight)),
@@ -1094,9 +4104,9 @@ export default class Color {
 		 * @returns the compounded value
 		 */
 		function blurChannelsWeighted(c1: Fraction, c2: Fraction, w: number): Fraction {
-			return Color._linear_sRGB(new Fraction(xjs.Math.interpolateArithmetic(
-				Color._sRGB_Linear(c1).valueOf(),
-				Color._sRGB_Linear(c2).valueOf(),
+			return new Fraction(Color._linear_sRGB(xjs.Math.interpolateArithmetic(
+				Color._sRGB_Linear(c1.valueOf()),
+				Color._sRGB_Linear(c2.valueOf()),
 				w
 			)))
 		}
@@ -1122,9 +4132,7 @@ export default class Color {
 		return (
 			(this.alpha.equals(0) && color.alpha.equals(0)) ||
 			(
-				this.red  .equals(color.red  ) &&
-				this.green.equals(color.green) &&
-				this.blue .equals(color.blue ) &&
+				xjs.Array.is(this._RGB, color._RGB) &&
 				this.alpha.equals(color.alpha)
 			)
 		)
@@ -1140,20 +4148,26 @@ export default class Color {
 	 * In fact, the relative luminance of lime is 0.72 — about ten times that of blue’s, which is only 0.07.
 	 *
 	 * In this method, alpha is ignored, that is, the color is assumed to be opaque.
+	 * A color outside the sRGB gamut is first {@link Color#toGamut|mapped} into it, rather than clipped,
+	 * so that, for example, `color(display-p3 1 0 0)` is measured as the sRGB color closest in appearance, not as `#ff0000`.
 	 * @see https://www.w3.org/TR/WCAG21/#dfn-relative-luminance
 	 * @see https://en.wikipedia.org/wiki/Relative_luminance#Relative_luminance_in_colorimetric_spaces
 	 * @returns the relative luminance of this color, a number 0–1
 	 */
 	relativeLuminance(): number {
+		const color: Color = this.toGamut()
 		return (
-			Color._sRGB_Linear(this.red  ).of(0.2126) +
-			Color._sRGB_Linear(this.green).of(0.7152) +
-			Color._sRGB_Linear(this.blue ).of(0.0722)
+			Color._sRGB_Linear(color.red  .valueOf()) * 0.2126 +
+			Color._sRGB_Linear(color.green.valueOf()) * 0.7152 +
+			Color._sRGB_Linear(color.blue .valueOf()) * 0.0722
 		)
 	}
 
 	/**
 	 * Return the *contrast ratio* between two colors.
+	 *
+	 * Alpha is ignored; to account for translucency, use {@link Color#contrastRatioOn}.
+	 * Colors outside the sRGB gamut are mapped into it; see {@link Color#relativeLuminance}.
 	 * @see https://www.w3.org/TR/WCAG/#dfn-contrast-ratio
 	 * @param   color the second color to check
 	 * @returns the contrast ratio of this color with the argument, a number 1–21
@@ -1164,14 +4178,238 @@ export default class Color {
 		return (Math.max(rl_this, rl_color) + 0.05) / (Math.min(rl_this, rl_color) + 0.05)
 	}
 
+	/**
+	 * Return the *contrast ratio* of this color, as a foreground, on a given background, accounting for alpha.
+	 *
+	 * If the background is translucent, it is first composited over white;
+	 * then, if this color is translucent, it is composited over the resulting background,
+	 * so that the contrast of the colors actually seen is measured.
+	 * Unlike {@link Color#contrastRatio}, this is not symmetric when this color is translucent.
+	 * The composited colors are then {@link Color#toGamut|mapped} into the sRGB gamut before their luminance is measured.
+	 * @see https://www.w3.org/TR/WCAG/#dfn-contrast-ratio
+	 * @param   background the background color
+	 * @returns the contrast ratio of this color on the background, a number 1–21
+	 */
+	contrastRatioOn(background: Color): number {
+		const backdrop: Color = background._over(new Color([1, 1, 1]))
+		return this._over(backdrop).contrastRatio(backdrop)
+	}
+
+	/**
+	 * Return the APCA *lightness contrast* (Lc) of this color as text on a given background.
+	 *
+	 * Unlike the WCAG 2 contrast ratio, APCA is perceptually uniform and depends on polarity:
+	 * dark text on a light background yields a positive value (up to about 106),
+	 * and light text on a dark background yields a negative value (down to about -108).
+	 * As a rough guide, |Lc| 75 is preferred for body text, and |Lc| 60 for large text.
+	 *
+	 * As in {@link Color#contrastRatioOn}, a translucent background is first composited over white,
+	 * and a translucent text color is then composited over the background.
+	 * Both colors are {@link Color#toGamut|mapped} into the sRGB gamut, rather than clipped, before their luminance is estimated.
+	 * @see https://github.com/Myndex/SAPC-APCA
+	 * @param   background the background color
+	 * @returns the lightness contrast of this text color on the background
+	 */
+	contrastAPCA(background: Color): number {
+		/**
+		 * Return the APCA screen luminance of a color, with a soft clamp near black.
+		 * @param   color the color, not necessarily in the sRGB gamut
+		 * @returns the estimated screen luminance
+		 */
+		function luminance(color: Color): number {
+			const mapped: Color = color.toGamut()
+			const y: number = [0.2126729, 0.7151522, 0.0721750]
+				.map((coefficient, i) => coefficient * [mapped.red, mapped.green, mapped.blue][i].valueOf() ** 2.4)
+				.reduce((a, b) => a + b)
+			return (y > 0.022) ? y : y + (0.022 - y) ** 1.414
+		}
+		const backdrop: Color = background._over(new Color([1, 1, 1]))
+		const y_text: number = luminance(this._over(backdrop))
+		const y_back: number = luminance(backdrop)
+		if (Math.abs(y_back - y_text) < 0.0005) return 0
+		if (y_back > y_text) { // dark text on a light background
+			const sapc: number = (y_back ** 0.56 - y_text ** 0.57) * 1.14
+			return (sapc < 0.1) ? 0 : (sapc - 0.027) * 100
+		} else { // light text on a dark background
+			const sapc: number = (y_back ** 0.65 - y_text ** 0.62) * 1.14
+			return (sapc > -0.1) ? 0 : (sapc + 0.027) * 100
+		}
+	}
+
+	/**
+	 * Report whether this color, as text on a given background, meets the WCAG 2 contrast requirements.
+	 *
+	 * The minimum contrast ratios are 4.5 for level AA and 7 for level AAA for normal text,
+	 * and 3 for level AA and 4.5 for level AAA for large text
+	 * (at least 18 point, or 14 point bold).
+	 * Translucent colors are composited first, and wide-gamut colors mapped into sRGB; see {@link Color#contrastRatioOn}.
+	 * @see https://www.w3.org/TR/WCAG/#contrast-minimum
+	 * @see https://www.w3.org/TR/WCAG/#contrast-enhanced
+	 * @param   background the background color
+	 * @returns whether each of the levels AA and AAA is met, for normal text and for large text
+	 */
+	wcagConformance(background: Color): {
+		normal: { AA: boolean; AAA: boolean; };
+		large : { AA: boolean; AAA: boolean; };
+	} {
+		const ratio: number = this.contrastRatioOn(background)
+		return {
+			normal: { AA: ratio >= 4.5, AAA: ratio >= 7   },
+			large : { AA: ratio >= 3  , AAA: ratio >= 4.5 },
+		}
+	}
+
+	/**
+	 * Return the color closest to this color that meets a minimum contrast ratio on a given background.
+	 *
+	 * If this color already meets the ratio, it is returned.
+	 * Otherwise this color is {@link Color#lighten|lightened} and {@link Color#darken|darkened}
+	 * in the given perceptual space, and the result requiring the smaller change in lightness is returned.
+	 * Results are {@link Color#toGamut|mapped} into the sRGB gamut,
+	 * and contrast is measured as in {@link Color#contrastRatioOn}, so a wide-gamut color is judged by its mapped appearance.
+	 * If the ratio cannot be met in either direction, the most contrasting result is returned
+	 * (a lightest or darkest version of this color).
+	 * @param   background the background color
+	 * @param   ratio the minimum contrast ratio, a number 1–21
+	 * @param   space the color space in which to adjust lightness; see {@link Color#lighten}
+	 * @returns a color meeting the contrast ratio, if possible
+	 * @throws  {RangeError} if the given color space does not have a lightness channel
+	 */
+	ensureContrast(background: Color, ratio: number = 4.5, space: ColorSpace = ColorSpace.OKLCH): Color {
+		if (this.contrastRatioOn(background) >= ratio) return this
+		const adjust = (p: number): Color => this.lighten(p, false, space).toGamut()
+		/**
+		 * Binary-search for the least amount of lightening (or darkening, if negative) that meets the ratio.
+		 * @param   limit the greatest amount, 1 or -1
+		 * @returns the least amount meeting the ratio, else `null` if even the greatest amount does not
+		 */
+		function search(limit: number): number|null {
+			if (adjust(limit).contrastRatioOn(background) < ratio) return null
+			let [lo, hi]: number[] = [0, limit]
+			for (let i = 0; i < 24; i++) {
+				const mid: number = (lo + hi) / 2
+				if (adjust(mid).contrastRatioOn(background) >= ratio) hi = mid; else lo = mid
+			}
+			return hi
+		}
+		const amounts: number[] = [search(1), search(-1)].filter((p): p is number => p !== null)
+		return (amounts.length) ?
+			adjust(amounts.reduce((a, b) => (Math.abs(b) < Math.abs(a)) ? b : a)) :
+			Color.mostReadable(background, [adjust(1), adjust(-1)])
+	}
+
+	/**
+	 * Return the perceptual difference (Delta E) between this color and another color.
+	 *
+	 * A difference of about 2.3 in CIE Lab (or 0.02 in OKLab) is a “just noticeable difference”.
+	 * For {@link DeltaE.CIE94}, this color is the reference color.
+	 * In this method, alpha is ignored, that is, both colors are assumed to be opaque.
+	 * @see https://en.wikipedia.org/wiki/Color_difference
+	 * @param   color the second color to compare
+	 * @param   method the formula to use
+	 * @returns the color difference, a non-negative number
+	 */
+	deltaE(color: Color, method: DeltaE = DeltaE.CIEDE2000): number {
+		return new Map<DeltaE, () => number>([
+			[DeltaE.CIE76    , () => Color._deltaE76  (this._lab(), color._lab())],
+			[DeltaE.CIE94    , () => Color._deltaE94  (this._lab(), color._lab())],
+			[DeltaE.CIEDE2000, () => Color._deltaE2000(this._lab(), color._lab())],
+			[DeltaE.OK       , () => Color._deltaEOK  (this._oklab(), color._oklab())],
+		]).get(method) !()
+	}
+
 	/**
 	 * Return a string name of this color, if one exists.
+	 *
+	 * By default, only an exact match is named.
+	 * Specify a positive `tolerance` to also accept the {@link Color#nearestName|nearest named color}
+	 * if its difference from this color is within the tolerance.
 	 * @see {@link https://www.w3.org/TR/css-color-4/#named-colors|Named Colors | CSS Color Module Level 4}
+	 * @param   tolerance the maximum color difference allowed between this color and the named color
+	 * @param   metric the formula with which to measure the color difference
 	 * @returns the name of this color, else `null` if it does not have one
 	 */
-	name(): string|null {
+	name(tolerance: number = 0, metric: DeltaE = DeltaE.CIEDE2000): string|null {
 		let named_colors: [string, string][] = Object.entries(NAMES)
 		const returned: [string, string]|null = named_colors.find((c) => c[1].toLowerCase() === this.toString()) || null
-		return (returned) ? returned[0] : null
+		if (returned) return returned[0]
+		if (tolerance <= 0) return null
+		const nearest: { name: string; distance: number; } = this.nearestName(metric)
+		return (nearest.distance <= tolerance) ? nearest.name : null
+	}
+
+	/**
+	 * Return the named color closest to this color, and its difference from this color.
+	 *
+	 * In this method, alpha is ignored, that is, all colors are assumed to be opaque.
+	 * If two named colors are equally close (such as the aliases `aqua` and `cyan`),
+	 * the one first in alphabetical order is returned.
+	 * @see {@link https://www.w3.org/TR/css-color-4/#named-colors|Named Colors | CSS Color Module Level 4}
+	 * @param   metric the formula with which to measure the color difference
+	 * @returns the name of the nearest named color, and its {@link Color#deltaE|difference} from this color
+	 */
+	nearestName(metric: DeltaE = DeltaE.CIEDE2000): { name: string; distance: number; } {
+		return Object.entries(NAMES)
+			.map(([name, hex]) => ({ name, distance: this.deltaE(new Color(hex), metric) }))
+			.reduce((a, b) => (b.distance < a.distance) ? b : a)
+	}
+
+	/**
+	 * Return the index of the ANSI system color closest to this color.
+	 *
+	 * Indices 0–7 are the normal colors, and 8–15 are their bright variants.
+	 * Since terminals may redefine the system colors, xterm’s default values are assumed.
+	 * In this method, alpha is ignored, that is, the color is assumed to be opaque.
+	 * @param   metric the formula with which to measure the color difference
+	 * @returns the index of the nearest system color, an integer 0–15
+	 */
+	ansi16(metric: DeltaE = DeltaE.CIEDE2000): number {
+		return this._nearestAnsi([...new Array(16)].map((_, i) => i), metric)
+	}
+
+	/**
+	 * Return the index of the xterm 256-color palette closest to this color.
+	 *
+	 * Only the color cube and the grayscale ramp (indices 16–255) are considered,
+	 * since terminals may redefine the system colors (indices 0–15).
+	 * For speed, only the cube colors adjacent to this color’s nearest cube color are compared, along with every gray.
+	 * In this method, alpha is ignored, that is, the color is assumed to be opaque.
+	 * @see Color.fromAnsi256
+	 * @param   metric the formula with which to measure the color difference
+	 * @returns the index of the nearest palette color, an integer 16–255
+	 */
+	ansi256(metric: DeltaE = DeltaE.CIEDE2000): number {
+		const levels: readonly number[] = [0, 95, 135, 175, 215, 255]
+		const [r, g, b]: number[] = this.rgb.slice(0,3).map((c) => levels
+			.map((level) => Math.abs(level - c.of(255)))
+			.reduce((nearest, d, i, diffs) => (d < diffs[nearest]) ? i : nearest, 0)
+		)
+		const adjacent = (level: number): number[] => [level - 1, level, level + 1].filter((l) => 0 <= l && l < 6)
+		const cube: number[] = adjacent(r).map((ri) => adjacent(g).map((gi) => adjacent(b).map((bi) => 16 + 36 * ri + 6 * gi + bi)))
+			.reduce((a, b) => [...a, ...b])
+			.reduce((a, b) => [...a, ...b])
+		return this._nearestAnsi([...cube, ...[...new Array(24)].map((_, i) => 232 + i)], metric)
+	}
+
+	/**
+	 * Return the ANSI escape sequence that sets the foreground or background color of a terminal to this color.
+	 *
+	 * In the reduced modes, the nearest color of the palette is used; see {@link Color#ansi16} and {@link Color#ansi256}.
+	 * Alpha is ignored, and colors outside the sRGB gamut are clipped.
+	 * Follow the colored text with {@link Color.ANSI_RESET} to restore the terminal’s default colors.
+	 * @see https://en.wikipedia.org/wiki/ANSI_escape_code#Colors
+	 * @param   mode the color mode supported by the terminal
+	 * @param   background should the sequence set the background color, rather than the foreground color?
+	 * @returns an escape sequence, such as `'\x1b[38;2;51;102;153m'`
+	 */
+	toAnsi(mode: AnsiColorMode = AnsiColorMode.TRUECOLOR, background: boolean = false): string {
+		return `\x1b[${new Map<AnsiColorMode, () => string>([
+			[AnsiColorMode.ANSI_16  , () => {
+				const index: number = this.ansi16()
+				return `${((index < 8) ? 30 : 82) + index + ((background) ? 10 : 0)}`
+			}],
+			[AnsiColorMode.ANSI_256 , () => `${(background) ? 48 : 38};5;${this.ansi256()}`],
+			[AnsiColorMode.TRUECOLOR, () => `${(background) ? 48 : 38};2;${this.rgb.slice(0,3).map((c) => Math.round(c.of(255))).join(';')}`],
+		]).get(mode) !()}m`
 	}
 }
@@ -0,0 +1,106 @@
+import Fraction from './Fraction.class'
+import Color, {ColorSpace, HueInterpolation} from './Color.class'
+
+
+/**
+ * A ColorScale is a continuous gradient of colors, defined by a list of color stops.
+ *
+ * Each stop has a color and a position in the interval `[0, 1]`.
+ * The color at any position between two stops is interpolated between those stops’ colors,
+ * in a given color space and with a given easing.
+ * Stops without positions are placed as in a CSS gradient:
+ * the first and last stops default to positions 0 and 1,
+ * other missing positions are spread evenly between their neighbors,
+ * and a position less than any previous position is raised to match it (creating a hard stop).
+ * @see https://www.w3.org/TR/css-images-3/#color-stop-fixup
+ */
+export default class ColorScale {
+	/** The color stops of this scale, with resolved positions, in order. */
+	private readonly _STOPS: readonly [Color, Fraction][];
+	/** The color space in which to interpolate between stops. */
+	private readonly _SPACE: ColorSpace;
+	/** The hue interpolation method, if the color space is cylindrical. */
+	private readonly _HUE_INTERPOLATION: HueInterpolation;
+	/** The easing function applied to the progress between each pair of adjacent stops. */
+	private readonly _EASING: (t: number) => number;
+
+	/**
+	 * Construct a new ColorScale object.
+	 *
+	 * The easing function is applied to the local progress between each pair of adjacent stops,
+	 * so the stops themselves stay fixed. It should map 0 to 0 and 1 to 1.
+	 * @param   stops the color stops: colors, or pairs of a color and its position
+	 * @param   options the interpolation options
+	 * @param   options.space the color space in which to interpolate (default OKLab); any space except CMYK
+	 * @param   options.hueInterpolation the hue interpolation method, if the space is cylindrical
+	 * @param   options.easing the easing function (default linear)
+	 * @throws  {Error} if no stops are provided
+	 */
+	constructor(stops: readonly (Color|readonly [Color, Fraction|number])[], options: {
+		space?: ColorSpace;
+		hueInterpolation?: HueInterpolation;
+		easing?: (t: number) => number;
+	} = {}) {
+		if (!stops.length) throw new Error('No stops provided.')
+		const colors: Color[] = stops.map((stop) => (stop instanceof Color) ? stop : stop[0])
+		const positions: (number|null)[] = stops.map((stop) => (stop instanceof Color) ? null : new Fraction(stop[1]).valueOf())
+		if (positions[0] === null) positions[0] = 0
+		if (positions[positions.length - 1] === null) positions[positions.length - 1] = 1
+		let max: number = 0
+		positions.forEach((p, i) => {
+			if (p !== null) positions[i] = max = Math.max(p, max)
+		})
+		positions.forEach((p, i) => {
+			if (p === null) {
+				const start: number = i - 1 // always resolved, since positions are filled in order
+				const end  : number = positions.findIndex((q, j) => j > i && q !== null)
+				positions[i] = positions[start] ! + (positions[end] ! - positions[start] !) / (end - start)
+			}
+		})
+		this._STOPS = colors.map((color, i) => [color, new Fraction(positions[i] !)])
+		this._SPACE = (options.space !== void 0) ? options.space : ColorSpace.OKLAB
+		this._HUE_INTERPOLATION = (options.hueInterpolation !== void 0) ? options.hueInterpolation : HueInterpolation.SHORTER
+		this._EASING = options.easing || ((t) => t)
+	}
+
+	/**
+	 * Get the color stops of this scale, with their resolved positions.
+	 * @returns an array of pairs of each stop’s color and position
+	 */
+	get stops(): [Color, Fraction][] {
+		return this._STOPS.map(([color, position]): [Color, Fraction] => [color, position])
+	}
+
+	/**
+	 * Return the color of this scale at a given position.
+	 *
+	 * Positions before the first stop return the first stop’s color,
+	 * and positions after the last stop return the last stop’s color.
+	 * At a hard stop (two stops at the same position), the later stop’s color is returned.
+	 * @param   t the position along this scale
+	 * @returns the color at the given position
+	 */
+	at(t: Fraction|number): Color {
+		const position: number = new Fraction(t).valueOf()
+		const next: number = this._STOPS.findIndex(([_color, p]) => position < p.valueOf())
+		if (next === 0) return this._STOPS[0][0]
+		if (next === -1) return this._STOPS[this._STOPS.length - 1][0]
+		const [[color1, p1], [color2, p2]] = [this._STOPS[next - 1], this._STOPS[next]]
+		const progress: number = (position - p1.valueOf()) / (p2.valueOf() - p1.valueOf())
+		return color1.mix(color2, this._EASING(progress), {
+			space: this._SPACE,
+			hueInterpolation: this._HUE_INTERPOLATION,
+		})
+	}
+
+	/**
+	 * Return a number of colors evenly sampled from this scale, including both ends.
+	 * @param   n the number of colors to sample, a non-negative integer
+	 * @returns an array of `n` colors, from position 0 to position 1
+	 * @throws  {RangeError} if `n` is not a non-negative integer
+	 */
+	sample(n: number): Color[] {
+		if (!Number.isInteger(n) || n < 0) throw new RangeError(`Invalid number of samples: ${n}.`)
+		return [...new Array(n)].map((_, i) => this.at((n === 1) ? 0 : i / (n - 1)))
+	}
+}
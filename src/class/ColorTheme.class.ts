@@ -0,0 +1,140 @@
+import Color, {ColorSpace, ColorStringOptions} from './Color.class'
+
+
+/**
+ * A ColorTheme is a set of named colors (design tokens), exportable to stylesheets and token files.
+ *
+ * Each token is either a single color, or a group of colors keyed by step,
+ * such as the tints and shades returned by {@link Color#ladder}.
+ * In CSS and SCSS, a color in a group is named by the group’s name and its step, joined by a hyphen
+ * (e.g. `primary-500`); in design tokens, a group is a nested object.
+ * Colors are written with {@link Color#toString}, in a given color space and with given formatting options.
+ * @see https://tr.designtokens.org/format/
+ */
+export default class ColorTheme {
+	/**
+	 * The pattern that token names must match,
+	 * so that they are valid in CSS custom properties, SCSS variables, and design tokens.
+	 * Names may not start with a digit, since SCSS variable names may not.
+	 */
+	private static readonly _NAME: RegExp = /^[A-Za-z_][A-Za-z0-9_-]*$/
+	/** The pattern that steps within a group must match; unlike names, steps may start with a digit. */
+	private static readonly _STEP: RegExp = /^[A-Za-z0-9_][A-Za-z0-9_-]*$/
+
+	/** The tokens of this theme: single colors, or groups of colors keyed by step, in order. */
+	private readonly _TOKENS: readonly [string, Color|ReadonlyMap<string, Color>][];
+
+	/**
+	 * Construct a new ColorTheme object.
+	 * @param   tokens a map or object from each token name to a color, or to a map from each step to a color
+	 * @throws  {RangeError} if a token name or step contains characters other than letters, digits, hyphens, and underscores
+	 * @throws  {RangeError} if a token name starts with a digit or a hyphen
+	 * @throws  {RangeError} if two colors have the same CSS name, e.g. a token `blue-100` and step `100` of a group `blue`
+	 */
+	constructor(tokens: ReadonlyMap<string, Color|ReadonlyMap<string|number, Color>>|{ readonly [name: string]: Color|ReadonlyMap<string|number, Color> }) {
+		const entries: [string, Color|ReadonlyMap<string|number, Color>][] = (tokens instanceof Map) ? [...tokens] : Object.entries(tokens)
+		this._TOKENS = entries.map(([name, value]): [string, Color|ReadonlyMap<string, Color>] => {
+			const group: Map<string, Color>|null = (value instanceof Color) ? null :
+				new Map<string, Color>([...value].map(([step, color]): [string, Color] => [`${step}`, color]))
+			if (!ColorTheme._NAME.test(name)) throw new RangeError(`Invalid token name: \`${name}\`.`)
+			const invalid: string|undefined = (group) ? [...group.keys()].find((step) => !ColorTheme._STEP.test(step)) : void 0
+			if (invalid !== void 0) throw new RangeError(`Invalid step of token \`${name}\`: \`${invalid}\`.`)
+			if (group && group.size < (value as ReadonlyMap<string|number, Color>).size) throw new RangeError(`Duplicate step in token \`${name}\`.`)
+			return [name, group || value as Color]
+		})
+		const names: string[] = this._names().map(([name]) => name)
+		const duplicate: string|undefined = names.find((name, i) => names.indexOf(name) !== i)
+		if (duplicate !== void 0) throw new RangeError(`Duplicate token name: \`${duplicate}\`.`)
+	}
+
+	/**
+	 * Flatten the tokens of this theme into their CSS names.
+	 * @returns pairs of each token name, or group name and step joined by a hyphen, and its color, in order
+	 */
+	private _names(): [string, Color][] {
+		return this._TOKENS
+			.map(([name, value]): [string, Color][] => (value instanceof Color) ? [[name, value]] :
+				[...value].map(([step, color]): [string, Color] => [`${name}-${step}`, color])
+			)
+			.reduce((a, b) => [...a, ...b], [])
+	}
+
+	/**
+	 * Get the colors of this theme, flattened, by their CSS names.
+	 * @returns a map from each token name, or group name and step joined by a hyphen, to its color
+	 */
+	get tokens(): Map<string, Color> {
+		return new Map<string, Color>(this._names())
+	}
+
+	/**
+	 * Return this theme as a CSS rule of custom properties.
+	 * @example
+	 * new ColorTheme({ primary: color }).toCSS() // ':root {\n\t--primary: #336699;\n}\n'
+	 * @param   options the export options
+	 * @param   options.selector the selector of the rule (default `:root`)
+	 * @param   options.prefix a prefix for each property name, after the leading `--` (default none)
+	 * @param   options.space the color space of the values (default HEX)
+	 * @param   options.format the formatting options of the values
+	 * @returns a CSS rule declaring one custom property per color
+	 */
+	toCSS(options: {
+		selector?: string;
+		prefix?: string;
+		space?: ColorSpace;
+		format?: ColorStringOptions;
+	} = {}): string {
+		const { selector = ':root', prefix = '', space = ColorSpace.HEX, format = {} } = options
+		return [
+			`${selector} {`,
+			...[...this.tokens].map(([name, color]) => `\t--${prefix}${name}: ${color.toString(space, format)};`),
+			'}',
+			'',
+		].join('\n')
+	}
+
+	/**
+	 * Return this theme as SCSS variable declarations.
+	 * @example
+	 * new ColorTheme({ primary: color }).toSCSS() // '$primary: #336699;\n'
+	 * @param   options the export options
+	 * @param   options.prefix a prefix for each variable name, after the leading `$` (default none)
+	 * @param   options.space the color space of the values (default HEX)
+	 * @param   options.format the formatting options of the values
+	 * @returns one SCSS variable declaration per color
+	 */
+	toSCSS(options: {
+		prefix?: string;
+		space?: ColorSpace;
+		format?: ColorStringOptions;
+	} = {}): string {
+		const { prefix = '', space = ColorSpace.HEX, format = {} } = options
+		return [...this.tokens].map(([name, color]) => `$${prefix}${name}: ${color.toString(space, format)};\n`).join('')
+	}
+
+	/**
+	 * Return this theme as a JSON file in the Design Tokens Format of the W3C Design Tokens Community Group.
+	 *
+	 * Each color is a token of type `color`, whose value is the color’s string;
+	 * each group of colors is a group, keyed by step.
+	 * @example
+	 * new ColorTheme({ primary: color }).toDesignTokens() // '{\n\t"primary": {\n\t\t"$type": "color",\n\t\t"$value": "#336699"\n\t}\n}\n'
+	 * @see https://tr.designtokens.org/format/
+	 * @param   options the export options
+	 * @param   options.space the color space of the values (default HEX)
+	 * @param   options.format the formatting options of the values
+	 * @returns a JSON string, indented with tabs
+	 */
+	toDesignTokens(options: {
+		space?: ColorSpace;
+		format?: ColorStringOptions;
+	} = {}): string {
+		const { space = ColorSpace.HEX, format = {} } = options
+		const token = (color: Color): { $type: string; $value: string; } => ({ $type: 'color', $value: color.toString(space, format) })
+		const tokens: { [name: string]: object } = {}
+		this._TOKENS.forEach(([name, value]) => {
+			tokens[name] = (value instanceof Color) ? token(value) : [...value].reduce((group, [step, color]) => ({ ...group, [step]: token(color) }), {})
+		})
+		return `${JSON.stringify(tokens, null, '\t')}\n`
+	}
+}
@@ -1,5 +1,6 @@
 import * as assert from 'assert'
-import xjs_Color, {ColorSpace} from '../src/class/Color.class'
+import xjs_Color, {ColorSpace, YCbCrStandard, GamutMapping, DeltaE, HueInterpolation, ColorVisionDeficiency, BlendMode, CompositeOperator, QuantizationMethod, AnsiColorMode, Illuminant} from '../src/class/Color.class'
+import {AngleUnit} from '../src/class/Angle.class'
 
 describe('xjs.Color', () => {
 	describe('.fromString(string): Color', () => {
@@ -27,6 +28,7 @@ describe('xjs.Color', () => {
 			assert.strictEqual(xjs_Color.fromString('hsl( 20      30%  40% / .5)' ).toString(), '#855c4780')
 			assert.strictEqual(xjs_Color.fromString('hsl( 20deg   30%  40% / 50%)').toString(), '#855c4780')
 			assert.strictEqual(xjs_Color.fromString('hsl( 20grad  30%  40% / .5)' ).toString(), '#855a4780')
+			assert.strictEqual(xjs_Color.fromString('hsl( 20deg   30   40  / .5)' ).toString(), '#855c4780')
 			assert.throws((() => xjs_Color.fromString('hsl(0,0,0)').toString()), RangeError)
 			// hwb()
 			assert.strictEqual(xjs_Color.fromString('hwb(  0deg,   0%,  0%)'      ).toString(), '#ff0000')
@@ -35,12 +37,243 @@ describe('xjs.Color', () => {
 			assert.strictEqual(xjs_Color.fromString('hwb( 20deg   30%  40% / .5)' ).toString(), '#99664d80')
 			assert.strictEqual(xjs_Color.fromString('hwb( 20      30%  40% / 50%)').toString(), '#99664d80')
 			assert.strictEqual(xjs_Color.fromString('hwb( 20grad  30%  40% / .5)' ).toString(), '#99634d80')
+			assert.strictEqual(xjs_Color.fromString('hwb( 20deg   30   40  / .5)' ).toString(), '#99664d80')
 			assert.throws((() => xjs_Color.fromString('hwb(0,0,0)').toString()), RangeError)
+			// lab()
+			assert.strictEqual(xjs_Color.fromString('lab(54.29% 80.8   69.89)'      ).toString(), '#ff0000')
+			assert.strictEqual(xjs_Color.fromString('lab(54.29  64.64% 55.91% / .5)').toString(), '#ff000080')
+			// lch()
+			assert.strictEqual(xjs_Color.fromString('lch(54.29  106.84 40.86deg)'         ).toString(), '#ff0000')
+			assert.strictEqual(xjs_Color.fromString('lch(54.29% 71.23% 0.1135turn / 25%)').toString(), '#ff000040')
+			// oklab()
+			assert.strictEqual(xjs_Color.fromString('oklab(62.8% 0.2249 0.1258)').toString(), '#ff0000')
+			assert.strictEqual(xjs_Color.fromString('oklab(0.628 56.2%  31.4%  )').toString(), '#ff0101')
+			// oklch()
+			assert.strictEqual(xjs_Color.fromString('oklch(0.628 0.2577 29.23deg / 50%)').toString(), '#ff000080')
+			// color()
+			assert.strictEqual(xjs_Color.fromString('color(srgb 100% 50% 0%)'             ).toString(), '#ff8000')
+			assert.strictEqual(xjs_Color.fromString('color(srgb 0.2 0.4 0.6 / .5)'        ).toString(), '#33669980')
+			assert.strictEqual(xjs_Color.fromString('color(display-p3 1 0 0)'             ).toString(ColorSpace.SRGB), 'color(srgb 1.0930663624351615 -0.22674197356975417 -0.15013458093711954)')
+			assert.strictEqual(xjs_Color.fromString('color(xyz 0.5 0.5 0.5 / 50%)'        ).toString(ColorSpace.XYZ_D65), 'color(xyz-d65 0.5 0.49999999999999994 0.5 / 0.5)')
+			assert.throws((() => xjs_Color.fromString('color(cmyk 0 0 0)').toString()), RangeError)
+			// color-mix()
+			assert.strictEqual(xjs_Color.fromString('color-mix(in srgb, red, blue)'                       ).toString(), '#800080')
+			assert.strictEqual(xjs_Color.fromString('color-mix(in srgb, red 30%, blue)'                   ).toString(), '#4d00b3')
+			assert.strictEqual(xjs_Color.fromString('color-mix(in srgb, 30% red, blue 70%)'               ).toString(), '#4d00b3')
+			assert.strictEqual(xjs_Color.fromString('color-mix(in srgb, red 20%, blue 20%)'               ).toString(), '#80008066')
+			assert.strictEqual(xjs_Color.fromString('color-mix(in oklch, red 30%, blue)'                  ).toString(), '#8800ec')
+			assert.strictEqual(xjs_Color.fromString('color-mix(in oklab, white, black)'                   ).toString(), '#636363')
+			assert.strictEqual(xjs_Color.fromString('color-mix(in hsl, red, lime)'                        ).toString(), '#ffff00')
+			assert.strictEqual(xjs_Color.fromString('color-mix(in hsl longer hue, red, lime)'             ).toString(), '#0000ff')
+			assert.strictEqual(xjs_Color.fromString('color-mix(in srgb, rgb(255, 0, 0) 40%, color-mix(in srgb, blue, white))').toString(), '#b34d99')
+			assert.throws((() => xjs_Color.fromString('color-mix(in oklab longer hue, red, blue)').toString()), RangeError)
+			assert.throws((() => xjs_Color.fromString('color-mix(in srgb, red 0%, blue 0%)'      ).toString()), RangeError)
+			assert.throws((() => xjs_Color.fromString('color-mix(in srgb, red, blue, lime)'      ).toString()), RangeError)
+			// relative colors
+			assert.strictEqual(xjs_Color.fromString('rgb(from #336699 r g b)'                               ).toString(), '#336699')
+			assert.strictEqual(xjs_Color.fromString('rgb(from #336699 r g calc(b * 0.5) / 50%)'             ).toString(), '#33664d80')
+			assert.strictEqual(xjs_Color.fromString('rgba(from #33669980 r g b)'                            ).toString(), '#33669980')
+			assert.strictEqual(xjs_Color.fromString('hsl(from #336699 h s calc(l + 20%))'                   ).toString(), '#6699cc')
+			assert.strictEqual(xjs_Color.fromString('hwb(from red calc(h + 120) w b)'                       ).toString(), '#00ff00')
+			assert.strictEqual(xjs_Color.fromString('lab(from #336699 l 0 0)'                               ).toString(), '#626262')
+			assert.strictEqual(xjs_Color.fromString('lch(from #336699 l c calc(h + 180deg))'                ).toString(), '#755e29')
+			assert.strictEqual(xjs_Color.fromString('oklch(from #336699 calc(l * 1.2) c h / calc(alpha / 2))').toString(), '#5084b980')
+			assert.strictEqual(xjs_Color.fromString('color(from #336699 srgb calc((r + g) / 2) 50% b)'      ).toString(), '#4d8099')
+			assert.strictEqual(xjs_Color.fromString('rgb(from color-mix(in srgb, red, blue) b g r)'         ).toString(), '#800080')
+			assert.strictEqual(xjs_Color.fromString('rgb(from red calc(r * 2) calc(g - 10) b)'              ).toString(ColorSpace.SRGB), 'color(srgb 1 0 0)')
+			assert.strictEqual(xjs_Color.fromString('hsl(from #336699 h calc(s * 3) calc(l + 80%))'         ).toString(), '#ffffff')
+			assert.ok(xjs_Color.fromString('rgb(from color(display-p3 1 0 0) r g b)').inGamut())
+			assert.throws((() => xjs_Color.fromString('rgb(from #336699 r g foo)' ).toString()), RangeError)
+			assert.throws((() => xjs_Color.fromString('hsl(from #336699 50% s l)' ).toString()), RangeError)
+			assert.throws((() => xjs_Color.fromString('rgb(from #336699 r g)'     ).toString()), RangeError)
+			assert.throws((() => xjs_Color.fromString('color(from red cmyk r g b)').toString()), RangeError)
+			// missing components
+			assert.strictEqual(xjs_Color.fromString('hsl(none 0% 50%)'        ).toString(), '#808080')
+			assert.strictEqual(xjs_Color.fromString('rgb(none 128 255 / none)').toString(), '#0080ff00')
+			assert.strictEqual(xjs_Color.fromString('oklch(0.628 0.2577 none)').toString(), xjs_Color.fromString('oklch(0.628 0.2577 0)').toString())
+			assert.throws((() => xjs_Color.fromString('rgb(none, 128, 255)').toString()), RangeError)
 			// named colors
 			assert.strictEqual(xjs_Color.fromString('black').toString(), '#000000')
 			assert.strictEqual(xjs_Color.fromString('palegreen').toString(), '#98fb98')
 			assert.throws((() => xjs_Color.fromString('blanco').toString()), ReferenceError)
 		})
+		it('resolves the origin of a relative color with the given resolver.', () => {
+			const resolver = (origin: string): xjs_Color|null => (origin === 'var(--brand)') ? new xjs_Color('#336699') : null
+			assert.strictEqual(xjs_Color.fromString('hsl(from var(--brand) h s calc(l + 20%))', resolver).toString(), '#6699cc')
+			assert.strictEqual(xjs_Color.fromString('rgb(from red r g b)'                      , resolver).toString(), '#ff0000')
+			assert.strictEqual(xjs_Color.fromString('color-mix(in srgb, rgb(from var(--brand) r g b), white)', resolver).toString(), '#99b3cc')
+			assert.throws((() => xjs_Color.fromString('hsl(from var(--brand) h s l)').toString()), RangeError)
+		})
+	})
+
+	describe('.fromLab(number, number, number, Fraction): Color', () => {
+		it('returns a new Color object from Lab channels.', () => {
+			assert.strictEqual(xjs_Color.fromLab(54.29, 80.8, 69.89).toString(), '#ff0000')
+			assert.strictEqual(xjs_Color.fromLab(  0,    0,    0   ).toString(), '#000000')
+			assert.strictEqual(xjs_Color.fromLab(100,    0,    0   ).toString(), '#ffffff')
+			assert.strictEqual(xjs_Color.fromLab(150,    0,    0   ).toString(), '#ffffff')
+		})
+	})
+
+	describe('.fromLCH(number, number, Angle, Fraction): Color', () => {
+		it('returns a new Color object from LCH channels.', () => {
+			assert.strictEqual(xjs_Color.fromLCH(54.29, 106.84, 0.1135     ).toString(), '#ff0000')
+			assert.strictEqual(xjs_Color.fromLCH(54.29, 106.84, 0.1135, 0.5).toString(), '#ff000080')
+		})
+	})
+
+	describe('.fromOKLab(number, number, number, Fraction): Color', () => {
+		it('returns a new Color object from OKLab channels.', () => {
+			assert.strictEqual(xjs_Color.fromOKLab(0.628, 0.2249, 0.1258).toString(), '#ff0000')
+			assert.strictEqual(xjs_Color.fromOKLab(0,     0,      0     ).toString(), '#000000')
+			assert.strictEqual(xjs_Color.fromOKLab(1,     0,      0     ).toString(), '#ffffff')
+		})
+	})
+
+	describe('.fromOKLCH(number, number, Angle, Fraction): Color', () => {
+		it('returns a new Color object from OKLCH channels.', () => {
+			assert.strictEqual(xjs_Color.fromOKLCH(0.628, 0.2577, 0.0812     ).toString(), '#ff0000')
+			assert.strictEqual(xjs_Color.fromOKLCH(0.628, 0.2577, 0.0812, 0.5).toString(), '#ff000080')
+		})
+	})
+
+	describe('.fromHSI(Angle, Fraction, Fraction, Fraction): Color', () => {
+		it('returns a new Color object from HSI channels.', () => {
+			assert.strictEqual(xjs_Color.fromHSI(0    , 1  , 1/3).toString(), '#ff0000')
+			assert.strictEqual(xjs_Color.fromHSI(7/12 , 0.5, 0.4).toString(), '#336699')
+			assert.strictEqual(xjs_Color.fromHSI(0    , 0  , 0.5).toString(), '#808080')
+			assert.strictEqual(xjs_Color.fromHSI(1/6  , 1  , 2/3).toString(), '#ffff00')
+			assert.strictEqual(new xjs_Color('#336699').hsi.slice(1).map((c) => c.valueOf().toFixed(4)).join(), '0.5000,0.4000,1.0000')
+		})
+	})
+
+	describe('.fromYUV(number, number, number, Fraction): Color', () => {
+		it('returns a new Color object from YUV channels.', () => {
+			assert.strictEqual(xjs_Color.fromYUV(0.299, -0.14713, 0.615).toString(), '#ff0000')
+			assert.strictEqual(xjs_Color.fromYUV(1    ,  0      , 0    ).toString(), '#ffffff')
+			assert.strictEqual(new xjs_Color('#336699').yuv.slice(0, 3).map((c) => c.toFixed(4)).join(), '0.3630,0.1166,-0.1430')
+		})
+	})
+
+	describe('.fromYIQ(number, number, number, Fraction): Color', () => {
+		it('returns a new Color object from YIQ channels.', () => {
+			assert.strictEqual(xjs_Color.fromYIQ(0.299, 0.5959, 0.2115).toString(), '#ff0000')
+			assert.strictEqual(new xjs_Color('#336699').yiq.slice(0, 3).map((c) => c.toFixed(4)).join(), '0.3630,-0.1834,0.0199')
+		})
+	})
+
+	describe('.fromYCbCr(number, number, number, Fraction, YCbCrStandard, boolean): Color', () => {
+		it('returns a new Color object from YCbCr channels.', () => {
+			assert.strictEqual(xjs_Color.fromYCbCr(255, 128, 128                             ).toString(), '#ffffff')
+			assert.strictEqual(xjs_Color.fromYCbCr(235, 128, 128, 1, YCbCrStandard.BT709, true).toString(), '#ffffff')
+			assert.strictEqual(xjs_Color.fromYCbCr( 16, 128, 128, 1, YCbCrStandard.BT709, true).toString(), '#000000')
+			assert.strictEqual(xjs_Color.fromYCbCr(76.245, 84.97234762979684, 255.5          ).toString(), '#ff0000')
+		})
+		it('is the inverse of `Color#ycbcr`.', () => {
+			const color: xjs_Color = new xjs_Color('#336699')
+			;[YCbCrStandard.BT601, YCbCrStandard.BT709, YCbCrStandard.BT2020].forEach((standard) => {
+				;[false, true].forEach((limited) => {
+					const [y, cb, cr]: number[] = color.ycbcr(standard, limited) as number[]
+					assert.strictEqual(xjs_Color.fromYCbCr(y, cb, cr, 1, standard, limited).toString(), '#336699')
+				})
+			})
+			assert.strictEqual(color.ycbcr().slice(0, 3).map((c) => (c as number).toFixed(2)).join(), '92.57,162.11,98.35')
+		})
+	})
+
+	describe('.fromXYZ(number, number, number, Fraction, string): Color', () => {
+		it('returns a new Color object from CIE XYZ values.', () => {
+			assert.strictEqual(xjs_Color.fromXYZ(0.9504559270516716, 1, 1.0890577507598784).toString(), '#ffffff')
+			assert.strictEqual(xjs_Color.fromXYZ(...new xjs_Color('#336699').xyz('D50').slice(0, 3) as [number, number, number], 1, 'D50').toString(), '#336699')
+			assert.deepStrictEqual(new xjs_Color('#336699').xyz(), new xjs_Color('#336699').predefined(ColorSpace.XYZ_D65))
+		})
+	})
+
+	describe('.fromPredefined(ColorSpace, number, number, number, Fraction): Color', () => {
+		it('returns a new Color object from channels in a predefined color space.', () => {
+			assert.strictEqual(xjs_Color.fromPredefined(ColorSpace.SRGB, 0.2, 0.4, 0.6).toString(), '#336699')
+			assert.strictEqual(xjs_Color.fromPredefined(ColorSpace.SRGB, 1.2, -0.1, 0.5, 0.5).toString(ColorSpace.SRGB), 'color(srgb 1.2 -0.1 0.5 / 0.5)')
+			assert.strictEqual(xjs_Color.fromPredefined(ColorSpace.SRGB, 1.2, -0.1, 0.5     ).rgb.join(), '1,0,0.5,1')
+			assert.throws((() => xjs_Color.fromPredefined(ColorSpace.HSL, 0, 0, 0)), RangeError)
+		})
+	})
+
+	describe('.fromKelvin(number, boolean, Fraction): Color', () => {
+		it('return the color of a blackbody at the given temperature.', () => {
+			assert.strictEqual(xjs_Color.fromKelvin( 1900).toString(), '#ff8400')
+			assert.strictEqual(xjs_Color.fromKelvin( 2700).toString(), '#ffad59')
+			assert.strictEqual(xjs_Color.fromKelvin(10000).toString(), '#cdd9ff')
+		})
+		it('return the color on the daylight locus at the given temperature.', () => {
+			assert.strictEqual(xjs_Color.fromKelvin(5000, true     ).toString(), '#ffebcd')
+			assert.strictEqual(xjs_Color.fromKelvin(6500, true, 0.5).toString(), '#ffffff80')
+		})
+		it('throw if the temperature is out of range.', () => {
+			assert.throws(() => xjs_Color.fromKelvin( 1000      ), RangeError)
+			assert.throws(() => xjs_Color.fromKelvin( 3000, true), RangeError)
+			assert.throws(() => xjs_Color.fromKelvin(30000      ), RangeError)
+		})
+	})
+
+	describe('.fromWavelength(number, Fraction): Color', () => {
+		it('returns the color of monochromatic light.', () => {
+			assert.deepStrictEqual([380, 450, 470, 490, 530, 570, 590, 650, 780].map((nm) => xjs_Color.fromWavelength(nm).toString()), [
+				'#7200ff', '#4f00ff', '#002dff', '#00ecff', '#00ff00', '#faff00', '#ff7b00', '#ff0000', '#ff0000',
+			])
+			assert.strictEqual(xjs_Color.fromWavelength(555, 0.5).toString(), '#58ff0080')
+		})
+		it('throws if the wavelength is outside the visible range.', () => {
+			assert.throws(() => xjs_Color.fromWavelength(379), RangeError)
+			assert.throws(() => xjs_Color.fromWavelength(781), RangeError)
+			assert.throws(() => xjs_Color.fromWavelength(NaN), RangeError)
+		})
+	})
+
+	describe('.fromSpectrum(number[], {}): Color', () => {
+		const flat = (value: number, n: number = 81): number[] => new Array(n).fill(value)
+		it('returns the white point of the illuminant for a perfect reflector.', () => {
+			assert.strictEqual(xjs_Color.fromSpectrum(flat(1)).toString(), '#ffffff')
+			assert.deepStrictEqual(xjs_Color.fromSpectrum(flat(1)).xyz().slice(0, 3).map((c) => c.toFixed(4)), ['0.9502', '1.0000', '1.0872'])
+			assert.strictEqual(xjs_Color.fromSpectrum(flat(1, 41), { step: 10 }).toString(), '#ffffff')
+			assert.strictEqual(xjs_Color.fromSpectrum(flat(1), { illuminant: Illuminant.A }).toString(), '#ffea85')
+			assert.strictEqual(xjs_Color.fromSpectrum(flat(1), { illuminant: Illuminant.E }).toString(), '#fff9f4')
+		})
+		it('integrates reflectance factors.', () => {
+			assert.strictEqual(xjs_Color.fromSpectrum(flat(0.5)).toString(), '#bcbcbb')
+			assert.strictEqual(xjs_Color.fromSpectrum(flat(0)).toString(), '#000000')
+			assert.strictEqual(xjs_Color.fromSpectrum(flat(1).map((_, i) => (380 + 5 * i > 600) ? 0.9 : 0.05)).toString(), '#dd2239')
+			assert.strictEqual(xjs_Color.fromSpectrum(flat(1), { alpha: 0.5 }).toString(), '#ffffff80')
+		})
+		it('throws if the samples or step are invalid.', () => {
+			assert.throws(() => xjs_Color.fromSpectrum([]), RangeError)
+			assert.throws(() => xjs_Color.fromSpectrum(flat(1), { step: 0 }), RangeError)
+		})
+	})
+
+	describe('.fromHash(string, {}): Color', () => {
+		it('returns the same color for the same string.', () => {
+			assert.deepStrictEqual(['alice', 'bob', 'carol', 'alice'].map((s) => xjs_Color.fromHash(s).toString()), ['#ee9ecd', '#9ba74d', '#8f7ad3', '#ee9ecd'])
+		})
+		it('constrains lightness and chroma to the given bands.', () => {
+			assert.strictEqual(xjs_Color.fromHash('alice', { lightness: [0.3, 0.3], chroma: [0, 0] }).toString(), '#2e2e2e')
+			for (const str of ['alice', 'bob', 'carol', 'dave', 'eve']) {
+				const color: xjs_Color = xjs_Color.fromHash(str, { lightness: [0.4, 0.5] })
+				assert.ok(0.4 - 0.01 <= color.oklchLightness && color.oklchLightness <= 0.5 + 0.01)
+			}
+		})
+		it('throws if a band is invalid.', () => {
+			assert.throws(() => xjs_Color.fromHash('alice', { lightness: [0.8, 0.6] }), RangeError)
+			assert.throws(() => xjs_Color.fromHash('alice', { lightness: [0.5, 1.5] }), RangeError)
+			assert.throws(() => xjs_Color.fromHash('alice', { chroma: [-0.1, 0.1] }), RangeError)
+		})
+	})
+
+	describe('.seededRandom(number|string): () => number', () => {
+		it('returns a reproducible sequence for a given seed.', () => {
+			const random: () => number = xjs_Color.seededRandom(42)
+			assert.deepStrictEqual([random(), random(), random()], [0.6011037519201636, 0.44829055899754167, 0.8524657934904099])
+			assert.strictEqual(xjs_Color.seededRandom('abc')(), xjs_Color.seededRandom('abc')())
+		})
 	})
 
 	describe('.random(): Color', () => {
@@ -49,6 +282,10 @@ describe('xjs.Color', () => {
 			assert.strictEqual(xjs_Color.random(true ).toString().slice(0, 1), '#')
 			assert.strictEqual(xjs_Color.random(false).toString().slice(0, 1), '#')
 		})
+		it('returns a reproducible color given a seeded random source.', () => {
+			assert.strictEqual(xjs_Color.random(true , xjs_Color.seededRandom(1)).toString(), '#a00087fb')
+			assert.strictEqual(xjs_Color.random(false, xjs_Color.seededRandom(1)).toString(), '#a00087')
+		})
 	})
 
 	describe('.randomName(): Color', () => {
@@ -57,6 +294,9 @@ describe('xjs.Color', () => {
 			assert.strictEqual(xjs_Color.randomName().toString().slice(0, 0), '')
 			assert.strictEqual(xjs_Color.randomName().toString().slice(0, 0), '')
 		})
+		it('returns a reproducible named color given a seeded random source.', () => {
+			assert.strictEqual(xjs_Color.randomName(xjs_Color.seededRandom(7)).toString(), '#faebd7')
+		})
 	})
 
 	describe('.constructor', () => {
@@ -64,6 +304,10 @@ describe('xjs.Color', () => {
 			assert.strictEqual(new xjs_Color(0.5,  0.5, 0.5, 0.5).rgb.join(), '0.5,0.5,0.5,0.5')
 			assert.strictEqual(new xjs_Color(0.25, 0.5, 1       ).rgb.join(), '0.25,0.5,1,1')
 			assert.strictEqual(new xjs_Color(                   ).rgb.join(), '0,0,0,0')
+			assert.strictEqual(new xjs_Color([1.2, -0.1, 0.5]   ).rgb.join(), '1,0,0.5,1')
+			assert.strictEqual(new xjs_Color([1.2, -0.1, 0.5], 0).rgb.join(), '1,0,0.5,0')
+			assert.strictEqual(new xjs_Color([1, 0, 0], void 0).toString(), '#ff0000')
+			assert.throws((() => new xjs_Color(1.2, -0.1, 0.5)), RangeError)
 			assert.strictEqual(new xjs_Color('#e4f'                               ).toString(), '#ee44ff'  )
 			assert.strictEqual(new xjs_Color('#6a43'                              ).toString(), '#66aa4433')
 			assert.strictEqual(new xjs_Color('rgb(20%   30%  40% / .5)'           ).toString(), '#334d6680')
@@ -90,6 +334,154 @@ describe('xjs.Color', () => {
 			assert.strictEqual(new xjs_Color(0.5 , 0.1, 0.9     ).toString(ColorSpace.HSL), 'hsl(0.75turn 80% 50%)')
 			assert.strictEqual(xjs_Color.fromString('#e4f0f6'   ).toString(ColorSpace.HWB), 'hwb(0.5555555555555557turn 89.41176470588236% 3.529411764705881%)')
 			assert.strictEqual(xjs_Color.fromString('#e4f0f680' ).toString(ColorSpace.HSL), 'hsl(0.5555555555555557turn 50% 92.94117647058824% / 0.5019607843137255)')
+			assert.strictEqual(new xjs_Color(0.25, 0.5, 1       ).toString(ColorSpace.LAB), 'lab(54.593521358227775 13.55848512352531 -70.77564169183061)')
+			assert.strictEqual(new xjs_Color(0.25, 0.5, 1       ).toString(ColorSpace.LCH), 'lch(54.593521358227775 72.06263925041358 0.780124329560347turn)')
+			assert.strictEqual(xjs_Color.fromString(new xjs_Color('#336699').toString(ColorSpace.LAB)).toString(), '#336699')
+			assert.strictEqual(xjs_Color.fromString(new xjs_Color('#336699').toString(ColorSpace.LCH)).toString(), '#336699')
+			assert.strictEqual(new xjs_Color(0.25, 0.5, 1       ).toString(ColorSpace.OKLAB), 'oklab(0.6258186710264697 -0.02707990888017009 -0.19934062113200623)')
+			assert.strictEqual(new xjs_Color(0.25, 0.5, 1       ).toString(ColorSpace.OKLCH), 'oklch(0.6258186710264697 0.201171580244955 0.728510758656251turn)')
+			assert.strictEqual(xjs_Color.fromString(new xjs_Color('#336699').toString(ColorSpace.OKLCH)).toString(), '#336699')
+			assert.strictEqual(new xjs_Color(0.2, 0.4, 0.6      ).toString(ColorSpace.SRGB), 'color(srgb 0.2 0.4 0.6)')
+			assert.strictEqual(new xjs_Color(0.2, 0.4, 0.6, 0.5 ).toString(ColorSpace.DISPLAY_P3), 'color(display-p3 0.24985133313829078 0.3952400722189161 0.5840337707927922 / 0.5)')
+			;[
+				ColorSpace.SRGB,
+				ColorSpace.SRGB_LINEAR,
+				ColorSpace.DISPLAY_P3,
+				ColorSpace.A98_RGB,
+				ColorSpace.PROPHOTO_RGB,
+				ColorSpace.REC2020,
+				ColorSpace.XYZ_D50,
+				ColorSpace.XYZ_D65,
+				ColorSpace.HSI,
+				ColorSpace.YUV,
+				ColorSpace.YIQ,
+				ColorSpace.YCBCR,
+			].forEach((space) => {
+				assert.strictEqual(xjs_Color.fromString(new xjs_Color('#336699').toString(space)).toString(), '#336699')
+			})
+		})
+		it('writes missing components as `none`.', () => {
+			assert.strictEqual(xjs_Color.fromString('hsl(none 0% 50%)'        ).toString(ColorSpace.HSL), 'hsl(none 0% 50%)')
+			assert.strictEqual(xjs_Color.fromString('hsl(none 0% 50%)'        ).toString(ColorSpace.HSL, { legacy: true }), 'hsl(0turn, 0%, 50%)')
+			assert.strictEqual(xjs_Color.fromString('rgb(none 128 255 / none)').toString(ColorSpace.RGB), 'rgb(none 128 255 / none)')
+			assert.strictEqual(xjs_Color.fromString('rgb(none 128 255)'       ).toString(ColorSpace.SRGB), 'color(srgb none 0.5019607843137255 1)')
+			assert.strictEqual(xjs_Color.fromString('lch(50 30 none / 50%)'   ).toString(ColorSpace.LCH, { precision: 2 }), 'lch(50 30 none / 0.5)')
+			assert.strictEqual(new xjs_Color('#808080'                        ).toString(ColorSpace.HSL), 'hsl(0turn 0% 50.19607843137255%)')
+		})
+		it('accepts formatting options.', () => {
+			assert.strictEqual(new xjs_Color(0.25, 0.5, 1          ).toString(ColorSpace.HEX, { uppercase: true }), '#4080FF')
+			assert.strictEqual(xjs_Color.fromString('#aabbcc'      ).toString(ColorSpace.HEX, { shortHex: true }), '#abc')
+			assert.strictEqual(new xjs_Color(0.25, 0.5, 1          ).toString(ColorSpace.HEX, { shortHex: true, forceAlpha: true }), '#4080ffff')
+			assert.strictEqual(new xjs_Color(1   , 1  , 1          ).toString(ColorSpace.HEX, { shortHex: true, forceAlpha: true }), '#ffff')
+			assert.strictEqual(new xjs_Color(0.25, 0.5, 1          ).toString(ColorSpace.RGB, { legacy: true }), 'rgb(64, 128, 255)')
+			assert.strictEqual(new xjs_Color(0.2 , 0.4, 0.6, 0.5   ).toString(ColorSpace.RGB, { legacy: true }), 'rgba(51, 102, 153, 0.5)')
+			assert.strictEqual(new xjs_Color(0.2 , 0.4, 0.6, 0.5   ).toString(ColorSpace.RGB, { percent: true }), 'rgb(20% 40% 60% / 50%)')
+			assert.strictEqual(new xjs_Color(0.25, 0.5, 1          ).toString(ColorSpace.HSL, { hueUnit: AngleUnit.DEG, precision: 2 }), 'hsl(220deg 100% 62.5%)')
+			assert.strictEqual(new xjs_Color(0.2 , 0.4, 0.6, 0.5   ).toString(ColorSpace.HSL, { hueUnit: AngleUnit.DEG, legacy: true, precision: 1 }), 'hsla(210deg, 50%, 40%, 0.5)')
+			assert.strictEqual(new xjs_Color(0.25, 0.5, 1          ).toString(ColorSpace.OKLCH, { hueUnit: AngleUnit.DEG, precision: 3 }), 'oklch(0.626 0.201 262.264deg)')
+			assert.strictEqual(new xjs_Color(0.25, 0.5, 1          ).toString(ColorSpace.LAB, { precision: 2, forceAlpha: true }), 'lab(54.59 13.56 -70.78 / 1)')
+			assert.strictEqual(new xjs_Color(0.2 , 0.4, 0.6, 0.5   ).toString(ColorSpace.SRGB, { percent: true }), 'color(srgb 20% 40% 60% / 50%)')
+			;[ColorSpace.RGB, ColorSpace.HSL, ColorSpace.HWB, ColorSpace.LAB, ColorSpace.LCH, ColorSpace.OKLAB, ColorSpace.OKLCH].forEach((space) => {
+				assert.strictEqual(xjs_Color.fromString(new xjs_Color('#336699').toString(space, { legacy: true, percent: true, hueUnit: AngleUnit.RAD })).toString(), '#336699')
+			})
+			;[ColorSpace.RGB, ColorSpace.HSV, ColorSpace.HSL, ColorSpace.HWB, ColorSpace.HSI, ColorSpace.LAB, ColorSpace.LCH, ColorSpace.OKLAB, ColorSpace.OKLCH].forEach((space) => {
+				assert.strictEqual(xjs_Color.fromString(new xjs_Color('#336699').toString(space, {                percent: false })).toString(), '#336699')
+			})
+			;[ColorSpace.RGB, ColorSpace.HSV, ColorSpace.HSL, ColorSpace.HWB].forEach((space) => {
+				assert.strictEqual(xjs_Color.fromString(new xjs_Color('#336699').toString(space, { legacy: true, percent: false })).toString(), '#336699')
+			})
+			assert.strictEqual(new xjs_Color('#336699').toString(ColorSpace.HSL, { percent: false, hueUnit: AngleUnit.DEG, precision: 1 }), 'hsl(210deg 50 40)')
+			assert.strictEqual(new xjs_Color('#336699').toString(ColorSpace.HSL, { percent: false, hueUnit: AngleUnit.DEG, precision: 1, legacy: true }), 'hsl(210deg, 50%, 40%)')
+		})
+	})
+
+	describe('#toJSON', () => {
+		it('returns the channels in extended sRGB, at full precision.', () => {
+			assert.strictEqual(JSON.stringify(xjs_Color.fromString('rgb(10 20 30 / 0.5)')), '{"space":"SRGB","channels":[0.0392156862745098,0.0784313725490196,0.11764705882352941],"alpha":0.5}')
+			assert.deepStrictEqual(xjs_Color.fromString('color(display-p3 1 0 0)').toJSON().channels.map((c) => c !.toFixed(6)), ['1.093066', '-0.226742', '-0.150135'])
+		})
+		it('represents missing components as `null`, in the space in which they were specified.', () => {
+			assert.deepStrictEqual(xjs_Color.fromString('hsl(none 50% 50% / none)').toJSON(), { space: 'HSL', channels: [null, 0.5, 0.5], alpha: null })
+		})
+	})
+
+	describe('.fromJSON(ColorJSON|string): Color', () => {
+		it('is the inverse of #toJSON.', () => {
+			for (const str of ['#336699', 'color(display-p3 1 0 0)', 'rgb(10 20 30 / 0.5)']) {
+				const color: xjs_Color = xjs_Color.fromString(str)
+				assert.deepStrictEqual(xjs_Color.fromJSON(color.toJSON()).toJSON(), color.toJSON())
+			}
+			const missing: xjs_Color = xjs_Color.fromJSON(xjs_Color.fromString('hsl(none 50% 50% / none)').toJSON())
+			assert.deepStrictEqual(missing.missing(ColorSpace.HSL), [true, false, false, true])
+			assert.strictEqual(missing.toString(ColorSpace.HSL), 'hsl(none 50% 50% / none)')
+		})
+		it('accepts other color spaces, and CSS strings.', () => {
+			assert.strictEqual(xjs_Color.fromJSON({ space: 'HSL', channels: [0.5, 1, 0.5], alpha: 1 }).toString(), '#00ffff')
+			assert.strictEqual(xjs_Color.fromJSON('rebeccapurple').toString(), '#663399')
+		})
+		it('throws if the representation is invalid.', () => {
+			assert.throws(() => xjs_Color.fromJSON({ space: 'SRGB', channels: [0, 0], alpha: 1 }), TypeError)
+			assert.throws(() => xjs_Color.fromJSON({ space: 'CMYK', channels: [0, 0, 0], alpha: 1 }), RangeError)
+			assert.throws(() => xjs_Color.fromJSON({ space: '0'   , channels: [0, 0, 0], alpha: 1 }), RangeError)
+		})
+	})
+
+	describe('.reviver, .replacer', () => {
+		it('revives colors serialized by `JSON.stringify`.', () => {
+			const theme = { primary: xjs_Color.fromString('#336699'), stops: [xjs_Color.fromString('oklch(0.5 0.1 none)')], name: 'ocean' }
+			const revived = JSON.parse(JSON.stringify(theme), xjs_Color.reviver)
+			assert.ok(revived.primary instanceof xjs_Color)
+			assert.strictEqual(revived.primary.toString(), '#336699')
+			assert.deepStrictEqual(revived.stops[0].missing(ColorSpace.OKLCH), [false, false, true, false])
+			assert.strictEqual(revived.name, 'ocean')
+		})
+		it('serializes colors as CSS strings.', () => {
+			const theme = { primary: xjs_Color.fromString('#336699'), stops: [xjs_Color.fromString('red')], size: 2 }
+			assert.strictEqual(JSON.stringify(theme, xjs_Color.replacer()), '{"primary":"#336699","stops":["#ff0000"],"size":2}')
+			assert.strictEqual(JSON.stringify(theme.stops, xjs_Color.replacer(ColorSpace.OKLCH, { precision: 3 })), '["oklch(0.628 0.258 0.081turn)"]')
+		})
+	})
+
+	describe('#kelvin', () => {
+		it('return the correlated color temperature.', () => {
+			assert.strictEqual(Math.round(new xjs_Color('#ffffff').kelvin / 10) * 10, 6510)
+			;[2700, 4000, 5000, 6500].forEach((k) => {
+				assert.ok(Math.abs(xjs_Color.fromKelvin(k).kelvin - k) < 10)
+			})
+			assert.ok(Number.isNaN(new xjs_Color('#000000').kelvin))
+		})
+	})
+
+	describe('#predefined', () => {
+		it('return the channels of the color in a predefined color space.', () => {
+			assert.strictEqual(xjs_Color.fromPredefined(ColorSpace.DISPLAY_P3, 1, 0, 0).predefined(ColorSpace.DISPLAY_P3).map((c) => Math.round(c.valueOf() * 1e6) / 1e6).join(), '1,0,0,1')
+			assert.throws((() => new xjs_Color().predefined(ColorSpace.HEX)), RangeError)
+		})
+	})
+
+	describe('#inGamut', () => {
+		it('return whether the color is within the gamut of a color space.', () => {
+			const p3_red: xjs_Color = xjs_Color.fromString('color(display-p3 1 0 0)')
+			assert.strictEqual(new xjs_Color('#336699').inGamut(), true)
+			assert.strictEqual(p3_red.inGamut(                       ), false)
+			assert.strictEqual(p3_red.inGamut(ColorSpace.HSL         ), false)
+			assert.strictEqual(p3_red.inGamut(ColorSpace.DISPLAY_P3  ), true)
+			assert.strictEqual(p3_red.inGamut(ColorSpace.REC2020     ), false)
+			assert.strictEqual(xjs_Color.fromString('color(display-p3 0 1 0)').inGamut(ColorSpace.REC2020), true)
+			assert.strictEqual(p3_red.inGamut(ColorSpace.OKLCH       ), true)
+		})
+	})
+
+	describe('#toGamut', () => {
+		it('return the color mapped into the gamut of a color space.', () => {
+			const p3_red: xjs_Color = xjs_Color.fromString('color(display-p3 1 0 0)')
+			assert.strictEqual(p3_red.toGamut(                                 ).toString(ColorSpace.SRGB), 'color(srgb 1 0.04456951620419126 0.04593161114017138)')
+			assert.strictEqual(p3_red.toGamut(ColorSpace.SRGB, GamutMapping.CLIP).toString(ColorSpace.SRGB), 'color(srgb 1 0 0)')
+			assert.strictEqual(p3_red.toGamut(ColorSpace.DISPLAY_P3            ), p3_red)
+			assert.strictEqual(xjs_Color.fromOKLCH(0.9, 0.3, 0.4).toGamut().toString(), '#56ff61')
+			assert.strictEqual(xjs_Color.fromOKLCH(1,   0.3, 0.4).toGamut().toString(), '#ffffff')
+			assert.strictEqual(xjs_Color.fromOKLCH(0,   0.3, 0.4).toGamut().toString(), '#000000')
+			assert.strictEqual(xjs_Color.fromLab(50, 100, 100).toGamut(ColorSpace.REC2020).inGamut(ColorSpace.REC2020), true)
 		})
 	})
 
@@ -103,6 +495,59 @@ describe('xjs.Color', () => {
 		it('return a new color with a specified rotation.', () => {
 			assert.strictEqual(new xjs_Color(1, 0, 0     ).rotate(120).toString(), '#00ff00')
 			assert.strictEqual(new xjs_Color(1, 0, 0, 0.5).rotate(120).toString(), '#00ff0080')
+			assert.strictEqual(new xjs_Color(1, 0, 0     ).rotate(120, ColorSpace.HSL  ).toString(), '#00ff00')
+			assert.strictEqual(new xjs_Color(1, 0, 0     ).rotate(120, ColorSpace.OKLCH).toString(), '#00ae00')
+			assert.strictEqual(new xjs_Color('#336699'   ).rotate(120, ColorSpace.HSI  ).toString(), '#993366')
+			assert.throws((() => new xjs_Color(1, 0, 0).rotate(120, ColorSpace.RGB)), RangeError)
+		})
+		it('wrap hues past a full turn.', () => {
+			assert.strictEqual(new xjs_Color('#336699').rotate(240).toString(), '#669933')
+		})
+	})
+
+	describe('harmonies', () => {
+		const color: xjs_Color = new xjs_Color('#336699')
+		it('#analogous returns neighboring hues.', () => {
+			assert.deepStrictEqual(color.analogous(  ).map((c) => c.toString()), ['#336699', '#333399', '#339999'])
+		})
+		it('#triadic returns evenly spaced hues.', () => {
+			assert.deepStrictEqual(color.triadic(                ).map((c) => c.toString()), ['#336699', '#993366', '#669933'])
+			assert.deepStrictEqual(color.triadic(ColorSpace.OKLCH).map((c) => c.toString()), ['#336699', '#924956', '#4f6e2e'])
+		})
+		it('#tetradic returns two complementary pairs.', () => {
+			assert.deepStrictEqual(color.tetradic(  ).map((c) => c.toString()), ['#336699', '#993399', '#996633', '#339933'])
+			assert.deepStrictEqual(color.tetradic(60).map((c) => c.toString()), ['#336699', '#663399', '#996633', '#669933'])
+		})
+		it('#splitComplementary returns the neighbors of the complement.', () => {
+			assert.deepStrictEqual(color.splitComplementary().map((c) => c.toString()), ['#336699', '#993333', '#999933'])
+		})
+		it('#monochromatic returns colors of varying lightness.', () => {
+			assert.deepStrictEqual(color.monochromatic().map((c) => c.toString()), ['#000c32', '#003766', '#336699', '#6498cf', '#97cdff'])
+		})
+		it('#monochromatic throws if the number of colors is not a non-negative integer.', () => {
+			assert.deepStrictEqual(color.monochromatic(0), [])
+			assert.throws(() => color.monochromatic(-1), RangeError)
+			assert.throws(() => color.monochromatic(2.5), RangeError)
+		})
+	})
+
+	describe('#ladder', () => {
+		const color: xjs_Color = new xjs_Color('#336699')
+		it('return tints and shades, with this color at the base step.', () => {
+			const ladder: Map<number, xjs_Color> = color.ladder()
+			assert.deepStrictEqual([...ladder.keys()], [50, 100, 200, 300, 400, 500, 600, 700, 800, 900])
+			assert.strictEqual(ladder.get(500), color)
+			assert.strictEqual(ladder.get(50 ) !.toString(), '#e4f8ff')
+			assert.strictEqual(ladder.get(900) !.toString(), '#00214e')
+			const lightnesses: number[] = [...ladder.values()].map((c) => c.oklchLightness)
+			assert.ok(lightnesses.every((l, i) => i === 0 || l < lightnesses[i - 1]))
+		})
+		it('accept custom steps, lightness bounds, and space.', () => {
+			assert.deepStrictEqual(
+				[...color.ladder([100, 500, 900], { space: ColorSpace.LCH, lightest: 0.9, darkest: 0.1 }).values()].map((c) => c.toString()),
+				['#c9e6ff', '#336699', '#002038'],
+			)
+			assert.throws(() => color.ladder(void 0, { space: ColorSpace.HSL }), RangeError)
 		})
 	})
 
@@ -112,6 +557,309 @@ describe('xjs.Color', () => {
 		})
 	})
 
+	describe('#lighten', () => {
+		it('return a lighter color.', () => {
+			assert.strictEqual(new xjs_Color('#336699').lighten(0.2                        ).toString(), '#6699cc')
+			assert.strictEqual(new xjs_Color('#336699').lighten(0.2, false, ColorSpace.OKLCH).toString(), '#6ea3da')
+			assert.throws((() => new xjs_Color('#336699').lighten(0.2, false, ColorSpace.CMYK)), RangeError)
+		})
+	})
+
+	describe('#darken', () => {
+		it('return a darker color.', () => {
+			assert.strictEqual(new xjs_Color('#336699').darken(0.2, true, ColorSpace.LCH).toString(), '#175283')
+			assert.strictEqual(new xjs_Color('#336699').darken(1                        ).toString(), '#000000')
+		})
+	})
+
+	describe('#mix', () => {
+		const red : xjs_Color = new xjs_Color('#ff0000')
+		const blue: xjs_Color = new xjs_Color('#0000ff')
+		it('return a mix of sRGB channels by default.', () => {
+			assert.strictEqual(red.mix(blue          ).toString(), '#800080')
+			assert.strictEqual(red.mix(blue, 0       ).toString(), '#ff0000')
+			assert.strictEqual(red.mix(blue, 1       ).toString(), '#0000ff')
+		})
+		it('return a mix in the given interpolation space.', () => {
+			assert.strictEqual(red.mix(blue, 0.5, { space: ColorSpace.SRGB_LINEAR }).toString(), '#bc00bc')
+			assert.strictEqual(red.mix(blue, 0.5, { space: ColorSpace.OKLAB       }).toString(), '#8c53a2')
+			assert.strictEqual(red.mix(blue, 0.7, { space: ColorSpace.OKLCH       }).toString(), '#8800ec')
+			assert.strictEqual(new xjs_Color('#ffffff').mix(blue, 0.5, { space: ColorSpace.LCH }).lchHue.convert(AngleUnit.DEG).toFixed(2), blue.lchHue.convert(AngleUnit.DEG).toFixed(2))
+			assert.throws(() => red.mix(blue, 0.5, { space: ColorSpace.CMYK }), RangeError)
+		})
+		it('interpolate hues using the given method.', () => {
+			const hue = (hueInterpolation: HueInterpolation): string => red.mix(blue, 0.5, { space: ColorSpace.OKLCH, hueInterpolation }).oklchHue.convert(AngleUnit.DEG).toFixed(2)
+			assert.strictEqual(hue(HueInterpolation.SHORTER   ), '326.64')
+			assert.strictEqual(hue(HueInterpolation.LONGER    ), '146.64')
+			assert.strictEqual(hue(HueInterpolation.INCREASING), '146.64')
+			assert.strictEqual(hue(HueInterpolation.DECREASING), '326.64')
+		})
+		it('premultiply alpha in an interpolation space.', () => {
+			assert.strictEqual(new xjs_Color('#ff000080').mix(blue, 0.5, { space: ColorSpace.SRGB_LINEAR }).toString(), '#9c00d5c0')
+		})
+		it('ignore missing components.', () => {
+			assert.strictEqual(xjs_Color.fromString('rgb(255 0 0 / none)').mix(blue, 0.5, { space: ColorSpace.SRGB }).toString(), '#800080')
+			assert.strictEqual(xjs_Color.fromString('hsl(none 50% 50%)').mix(xjs_Color.fromString('hsl(120 50% 30%)'), 0.5, { space: ColorSpace.HSL }).toString(ColorSpace.HSL, { precision: 2, hueUnit: AngleUnit.DEG }), 'hsl(120deg 50% 40%)')
+			assert.strictEqual(xjs_Color.fromString('lch(50 0 none)').mix(xjs_Color.fromString('lch(70 0 none)'), 0.5, { space: ColorSpace.LCH }).missing(ColorSpace.LCH)[2], true)
+		})
+	})
+
+	describe('#missing', () => {
+		it('return which components are missing.', () => {
+			assert.deepStrictEqual(xjs_Color.fromString('rgb(none 128 255 / none)').missing(ColorSpace.RGB), [true, false, false, true])
+			assert.deepStrictEqual(xjs_Color.fromString('color(display-p3 1 none 0)').missing(ColorSpace.DISPLAY_P3), [false, true, false, false])
+			assert.deepStrictEqual(xjs_Color.fromString('rgb(from red r none b)').missing(ColorSpace.RGB), [false, true, false, false])
+			assert.deepStrictEqual(new xjs_Color('#336699').missing(ColorSpace.HSL), [false, false, false, false])
+			assert.deepStrictEqual(new xjs_Color('rgb(none 128 255 / none)').missing(ColorSpace.RGB), [true, false, false, true])
+			assert.deepStrictEqual(new xjs_Color([0, 0.5, 1], 1, { space: ColorSpace.RGB, channels: [true, false, false, false] }).missing(ColorSpace.RGB), [true, false, false, false])
+		})
+		it('carry missing components to analogous components.', () => {
+			assert.deepStrictEqual(xjs_Color.fromString('hsl(none 50% 50%)').missing(ColorSpace.OKLCH), [false, false, true, false])
+			assert.deepStrictEqual(xjs_Color.fromString('lab(none 20 30)').missing(ColorSpace.LCH), [true, false, false, false])
+			assert.deepStrictEqual(xjs_Color.fromString('lab(none 20 30)').missing(ColorSpace.SRGB), [false, false, false, false])
+		})
+		it('report powerless hues of achromatic colors.', () => {
+			assert.deepStrictEqual(new xjs_Color('#808080').missing(ColorSpace.HSV), [true, false, false, false])
+			assert.deepStrictEqual(new xjs_Color('#808080').missing(ColorSpace.OKLCH), [false, false, true, false])
+			assert.deepStrictEqual(new xjs_Color('#808080').missing(ColorSpace.OKLAB), [false, false, false, false])
+			assert.throws(() => new xjs_Color('#808080').missing(ColorSpace.CMYK), RangeError)
+		})
+	})
+
+	describe('#contrastRatio', () => {
+		it('return the WCAG 2 contrast ratio.', () => {
+			assert.strictEqual(new xjs_Color('#000000').contrastRatio(new xjs_Color('#ffffff')), 21)
+			assert.strictEqual(new xjs_Color('#ffffff').contrastRatio(new xjs_Color('#000000')), 21)
+		})
+		it('ignore alpha, and are symmetric.', () => {
+			assert.strictEqual(new xjs_Color('#00000080').contrastRatio(new xjs_Color('#ffffff')), 21)
+			assert.strictEqual(new xjs_Color('#ffffff').contrastRatio(new xjs_Color('#00000080')), 21)
+		})
+		it('map a wide-gamut color into sRGB, rather than clip it.', () => {
+			const p3_red: xjs_Color = xjs_Color.fromString('color(display-p3 1 0 0)')
+			assert.strictEqual(p3_red.relativeLuminance(), p3_red.toGamut().relativeLuminance())
+			assert.notStrictEqual(p3_red.relativeLuminance(), new xjs_Color('#ff0000').relativeLuminance())
+			assert.strictEqual(p3_red.contrastRatio(new xjs_Color('#ffffff')).toFixed(4), '3.9572')
+		})
+	})
+
+	describe('#contrastRatioOn', () => {
+		it('composite a translucent color over the background first.', () => {
+			assert.strictEqual(new xjs_Color('#00000080').contrastRatioOn(new xjs_Color('#ffffff')).toFixed(4), '4.0041')
+			assert.strictEqual(new xjs_Color('#000000'  ).contrastRatioOn(new xjs_Color('#ffffff')), 21)
+		})
+		it('composite a translucent background over white first.', () => {
+			assert.strictEqual(new xjs_Color('#000000').contrastRatioOn(new xjs_Color('#00000000')), 21)
+			assert.strictEqual(new xjs_Color('#000000').contrastRatioOn(new xjs_Color('#00000080')).toFixed(4), '5.2446')
+		})
+	})
+
+	describe('#contrastAPCA', () => {
+		const white: xjs_Color = new xjs_Color('#ffffff')
+		const black: xjs_Color = new xjs_Color('#000000')
+		it('return the APCA lightness contrast.', () => {
+			assert.strictEqual(black.contrastAPCA(white).toFixed(2), '106.04')
+			assert.strictEqual(white.contrastAPCA(black).toFixed(2), '-107.88')
+			assert.strictEqual(new xjs_Color('#888888').contrastAPCA(white).toFixed(2), '63.06')
+			assert.strictEqual(white.contrastAPCA(new xjs_Color('#888888')).toFixed(2), '-68.54')
+			assert.strictEqual(white.contrastAPCA(white), 0)
+		})
+		it('composite a translucent color over the background first.', () => {
+			assert.strictEqual(new xjs_Color('#00000080').contrastAPCA(white).toFixed(2), '67.37')
+		})
+		it('map a wide-gamut color into sRGB, rather than clip it.', () => {
+			assert.strictEqual(xjs_Color.fromString('color(display-p3 1 0 0)').contrastAPCA(white).toFixed(2), '64.07')
+			assert.strictEqual(new xjs_Color('#ff0000').contrastAPCA(white).toFixed(2), '64.13')
+		})
+	})
+
+	describe('#wcagConformance', () => {
+		const white: xjs_Color = new xjs_Color('#ffffff')
+		it('report whether each level is met for normal and large text.', () => {
+			assert.deepStrictEqual(new xjs_Color('#000000').wcagConformance(white), { normal: { AA: true , AAA: true  }, large: { AA: true, AAA: true  } })
+			assert.deepStrictEqual(new xjs_Color('#767676').wcagConformance(white), { normal: { AA: true , AAA: false }, large: { AA: true, AAA: true  } })
+			assert.deepStrictEqual(new xjs_Color('#949494').wcagConformance(white), { normal: { AA: false, AAA: false }, large: { AA: true, AAA: false } })
+		})
+	})
+
+	describe('#ensureContrast', () => {
+		const white: xjs_Color = new xjs_Color('#ffffff')
+		const gray : xjs_Color = new xjs_Color('#808080')
+		it('return this color if it already meets the ratio.', () => {
+			const blue: xjs_Color = new xjs_Color('#3399ff')
+			assert.strictEqual(blue.ensureContrast(new xjs_Color('#000000'), 7), blue)
+		})
+		it('return the closest lighter or darker color meeting the ratio.', () => {
+			const adjusted: xjs_Color = new xjs_Color('#3399ff').ensureContrast(white)
+			assert.strictEqual(adjusted.toString(), '#0077da')
+			assert.ok(adjusted.contrastRatio(white) >= 4.5)
+			assert.strictEqual(new xjs_Color('#3399ff').ensureContrast(white, 4.5, ColorSpace.HSL).toString(), '#0074e8')
+			assert.strictEqual(new xjs_Color('#777777').ensureContrast(gray).toString(), '#181818')
+		})
+		it('return the most contrasting color if the ratio cannot be met.', () => {
+			assert.strictEqual(new xjs_Color('#777777').ensureContrast(gray, 21).toString(), '#000000')
+		})
+	})
+
+	describe('.mostReadable(Color, Color[], number): Color', () => {
+		const white: xjs_Color = new xjs_Color('#ffffff')
+		const black: xjs_Color = new xjs_Color('#000000')
+		it('return the candidate with the greatest contrast.', () => {
+			assert.strictEqual(xjs_Color.mostReadable(new xjs_Color('#808080'), [new xjs_Color('#ff0000'), white, black]), black)
+		})
+		it('return the first candidate meeting the given ratio.', () => {
+			const blue: xjs_Color = new xjs_Color('#0077da')
+			assert.strictEqual(xjs_Color.mostReadable(white, [new xjs_Color('#ff0000'), blue, black], 4.5), blue)
+			assert.strictEqual(xjs_Color.mostReadable(white, [new xjs_Color('#ffff00'), new xjs_Color('#3399ff')], 4.5).toString(), '#3399ff')
+			assert.throws(() => xjs_Color.mostReadable(white, []), Error)
+		})
+	})
+
+	describe('#blend', () => {
+		const source  : xjs_Color = new xjs_Color('#ff8040')
+		const backdrop: xjs_Color = new xjs_Color('#3366cc')
+		it('return the result of a separable blend mode.', () => {
+			assert.strictEqual(source.blend(backdrop                       ).toString(), '#ff8040')
+			assert.strictEqual(source.blend(backdrop, BlendMode.MULTIPLY   ).toString(), '#333333')
+			assert.strictEqual(source.blend(backdrop, BlendMode.SCREEN     ).toString(), '#ffb3d9')
+			assert.strictEqual(source.blend(backdrop, BlendMode.OVERLAY    ).toString(), '#6666b3')
+			assert.strictEqual(source.blend(backdrop, BlendMode.DARKEN     ).toString(), '#336640')
+			assert.strictEqual(source.blend(backdrop, BlendMode.LIGHTEN    ).toString(), '#ff80cc')
+			assert.strictEqual(source.blend(backdrop, BlendMode.COLOR_DODGE).toString(), '#ffcdff')
+			assert.strictEqual(source.blend(backdrop, BlendMode.COLOR_BURN ).toString(), '#330034')
+			assert.strictEqual(source.blend(backdrop, BlendMode.HARD_LIGHT ).toString(), '#ff6766')
+			assert.strictEqual(source.blend(backdrop, BlendMode.SOFT_LIGHT ).toString(), '#7266b8')
+			assert.strictEqual(source.blend(backdrop, BlendMode.DIFFERENCE ).toString(), '#cc1a8c')
+			assert.strictEqual(source.blend(backdrop, BlendMode.EXCLUSION  ).toString(), '#cc80a6')
+		})
+		it('return the result of a non-separable blend mode.', () => {
+			assert.strictEqual(source.blend(backdrop, BlendMode.HUE       ).toString(), '#af4916')
+			assert.strictEqual(source.blend(backdrop, BlendMode.SATURATION).toString(), '#2767e6')
+			assert.strictEqual(source.blend(backdrop, BlendMode.COLOR     ).toString(), '#c24303')
+			assert.strictEqual(source.blend(backdrop, BlendMode.LUMINOSITY).toString(), '#75a3ff')
+		})
+		it('composite with the alpha of the source and backdrop.', () => {
+			assert.strictEqual(new xjs_Color('#ff804080').blend(backdrop, BlendMode.MULTIPLY).toString(), '#334d7f')
+			assert.strictEqual(source.blend(new xjs_Color('#3366cc80'), BlendMode.MULTIPLY).toString(), '#99593a')
+			assert.strictEqual(new xjs_Color('#ff804080').blend(new xjs_Color('#3366cc80')).toString(), '#bb776fc0')
+		})
+	})
+
+	describe('#composite', () => {
+		const source     : xjs_Color = new xjs_Color('#ff000080')
+		const destination: xjs_Color = new xjs_Color('#0000ffc0')
+		it('return the result of a Porter–Duff operator.', () => {
+			assert.strictEqual(source.composite(destination                                    ).toString(), '#92006de0')
+			assert.strictEqual(source.composite(destination, CompositeOperator.CLEAR           ).toString(), '#00000000')
+			assert.strictEqual(source.composite(destination, CompositeOperator.COPY            ).toString(), '#ff000080')
+			assert.strictEqual(source.composite(destination, CompositeOperator.DESTINATION     ).toString(), '#0000ffc0')
+			assert.strictEqual(source.composite(destination, CompositeOperator.DESTINATION_OVER).toString(), '#2400dbe0')
+			assert.strictEqual(source.composite(destination, CompositeOperator.SOURCE_IN       ).toString(), '#ff000060')
+			assert.strictEqual(source.composite(destination, CompositeOperator.DESTINATION_IN  ).toString(), '#0000ff60')
+			assert.strictEqual(source.composite(destination, CompositeOperator.SOURCE_OUT      ).toString(), '#ff000020')
+			assert.strictEqual(source.composite(destination, CompositeOperator.DESTINATION_OUT ).toString(), '#0000ff60')
+			assert.strictEqual(source.composite(destination, CompositeOperator.SOURCE_ATOP     ).toString(), '#80007fc0')
+			assert.strictEqual(source.composite(destination, CompositeOperator.DESTINATION_ATOP).toString(), '#3f00c080')
+			assert.strictEqual(source.composite(destination, CompositeOperator.XOR             ).toString(), '#3f00c07f')
+			assert.strictEqual(source.composite(destination, CompositeOperator.LIGHTER         ).toString(), '#8000c0')
+		})
+		it('composite premultiplied channels.', () => {
+			assert.strictEqual(source.composite(destination, CompositeOperator.SOURCE_OVER, true).toString(), '#ff007fe0')
+			assert.strictEqual(source.composite(destination, CompositeOperator.SOURCE_IN  , true).toString(), '#c0000060')
+		})
+	})
+
+	describe('.flatten(...Color[]): Color', () => {
+		it('composite each layer over the layers below it.', () => {
+			assert.strictEqual(xjs_Color.flatten(new xjs_Color('#ffffff'), new xjs_Color('#ff000080'), new xjs_Color('#0000ff40')).toString(), '#bf5f9f')
+			assert.strictEqual(xjs_Color.flatten(new xjs_Color('#ff000080'), new xjs_Color('#0000ff80')).toString(), '#5500aac0')
+			assert.strictEqual(xjs_Color.flatten(new xjs_Color('#336699')).toString(), '#336699')
+			assert.throws(() => xjs_Color.flatten(), Error)
+		})
+	})
+
+	describe('.quantize(Color[], number): {color: Color, population: number}[]', () => {
+		const pixels: xjs_Color[] = [
+			...new Array(6).fill('#ff0000'), '#ee1111', '#dd0000',
+			...new Array(3).fill('#0000ff'), '#0000ee',
+			'#00ff00',
+			'#00000000',
+		].map((str) => new xjs_Color(str))
+		const palette = (n: number, options = {}): string => xjs_Color.quantize(pixels, n, options).map(({ color, population }) => `${color} ${population}`).join()
+		it('returns the dominant colors by median-cut, with population counts.', () => {
+			assert.strictEqual(palette(1), '#ad5e7c 13')
+			assert.strictEqual(palette(3), '#5d49bd 6,#ff0000 6,#00ff00 1')
+			assert.strictEqual(palette(3, { space: ColorSpace.SRGB }), palette(3, { space: ColorSpace.RGB }))
+		})
+		it('refines the clusters by k-means.', () => {
+			assert.strictEqual(palette(3, { method: QuantizationMethod.K_MEANS }), '#f90202 8,#0000fb 4,#00ff00 1')
+		})
+		it('returns no more colors than are distinct.', () => {
+			assert.strictEqual(xjs_Color.quantize(pixels, 20).length, 6)
+			assert.deepStrictEqual(xjs_Color.quantize([], 3), [])
+		})
+		it('throws for an invalid size or color space.', () => {
+			assert.throws(() => xjs_Color.quantize(pixels, 0), RangeError)
+			assert.throws(() => xjs_Color.quantize(pixels, 2.5), RangeError)
+			assert.throws(() => xjs_Color.quantize(pixels, 3, { space: ColorSpace.OKLCH }), RangeError)
+			assert.throws(() => xjs_Color.quantize(pixels, 3, { space: ColorSpace.CMYK }), RangeError)
+		})
+	})
+
+	describe('#simulate', () => {
+		const red: xjs_Color = new xjs_Color('#ff0000')
+		it('simulate dichromacy and achromatopsia at full severity.', () => {
+			assert.strictEqual(red.simulate(ColorVisionDeficiency.PROTAN       ).toString(), '#6d5f00')
+			assert.strictEqual(red.simulate(ColorVisionDeficiency.DEUTAN       ).toString(), '#a39000')
+			assert.strictEqual(red.simulate(ColorVisionDeficiency.TRITAN       ).toString(), '#ff000f')
+			assert.strictEqual(red.simulate(ColorVisionDeficiency.ACHROMATOPSIA).toString(), '#7f7f7f')
+		})
+		it('simulate anomalous trichromacy at partial severity.', () => {
+			assert.strictEqual(red.simulate(ColorVisionDeficiency.PROTAN, 0.5).toString(), '#c84400')
+			assert.strictEqual(red.simulate(ColorVisionDeficiency.PROTAN, 0  ), red)
+		})
+		it('preserve white and alpha.', () => {
+			assert.strictEqual(new xjs_Color('#ffffff80').simulate(ColorVisionDeficiency.DEUTAN).toString(), '#ffffff80')
+		})
+		it('reduce the difference between confusable colors.', () => {
+			const [c1, c2]: xjs_Color[] = [new xjs_Color('#d62728'), new xjs_Color('#2ca02c')]
+			assert.ok(c1.simulate(ColorVisionDeficiency.DEUTAN).deltaE(c2.simulate(ColorVisionDeficiency.DEUTAN)) < c1.deltaE(c2) / 10)
+		})
+	})
+
+	describe('#deltaE', () => {
+		it('return 0 for identical colors.', () => {
+			const c: xjs_Color = new xjs_Color('#336699')
+			;[DeltaE.CIE76, DeltaE.CIE94, DeltaE.CIEDE2000, DeltaE.OK].forEach((method) => {
+				assert.strictEqual(c.deltaE(c, method), 0)
+			})
+		})
+		it('return the Euclidean distance for CIE76 and OK.', () => {
+			const black: xjs_Color = new xjs_Color('#000000')
+			const white: xjs_Color = new xjs_Color('#ffffff')
+			assert.strictEqual(black.deltaE(white, DeltaE.CIE76).toFixed(4), '100.0000')
+			assert.strictEqual(black.deltaE(white, DeltaE.OK   ).toFixed(4), '1.0000')
+			assert.strictEqual(black.deltaE(white, DeltaE.CIE94).toFixed(4), '100.0000')
+		})
+		it('return CIEDE2000 differences matching published test data.', () => {
+			;([
+				[[50      ,   2.6772 , -79.7751], [50      ,   0      , -82.7485],  2.0425],
+				[[50      ,   0      ,   0     ], [50      ,  -1      ,   2     ],  2.3669],
+				[[50      ,   2.5    ,   0     ], [73      ,  25      , -18     ], 27.1492],
+				[[60.2574 , -34.0099 ,  36.2677], [60.4626 , -34.1751 ,  39.4387],  1.2644],
+				[[22.7233 ,  20.0904 , -46.694 ], [23.0331 ,  14.973  , -42.5619],  2.0373],
+			] as [[number, number, number], [number, number, number], number][]).forEach(([lab1, lab2, expected]) => {
+				assert.strictEqual(xjs_Color.fromLab(...lab1).deltaE(xjs_Color.fromLab(...lab2)).toFixed(4), expected.toFixed(4))
+			})
+		})
+		it('return a non-symmetric difference for CIE94.', () => {
+			const c1: xjs_Color = new xjs_Color('#336699')
+			const c2: xjs_Color = new xjs_Color('#996633')
+			assert.notStrictEqual(c1.deltaE(c2, DeltaE.CIE94), c2.deltaE(c1, DeltaE.CIE94))
+			assert.strictEqual(c1.deltaE(c2, DeltaE.CIEDE2000).toFixed(8), c2.deltaE(c1, DeltaE.CIEDE2000).toFixed(8))
+		})
+	})
+
 	describe('#name', () => {
 		it('return the string name, if it exists, of the color.', () => {
 			assert.strictEqual(xjs_Color.fromString('#000000').name(), 'black')
@@ -119,5 +867,61 @@ describe('xjs.Color', () => {
 			assert.strictEqual(xjs_Color.fromString('#fa8072').name(), 'salmon')
 			assert.strictEqual(xjs_Color.fromString('#c0ffee').name(), null)
 		})
+		it('return the nearest name within a given tolerance.', () => {
+			assert.strictEqual(xjs_Color.fromString('#ff0001').name(1), 'red')
+			assert.strictEqual(xjs_Color.fromString('#fa8073').name(1), 'salmon')
+			assert.strictEqual(xjs_Color.fromString('#c0ffee').name(1), null)
+			assert.strictEqual(xjs_Color.fromString('#c0ffee').name(10), 'paleturquoise')
+			assert.strictEqual(xjs_Color.fromString('#c0ffee').name(0.05, DeltaE.OK), 'lightcyan')
+		})
+	})
+
+	describe('#nearestName', () => {
+		it('return the closest named color and its distance.', () => {
+			assert.deepStrictEqual(xjs_Color.fromString('#98FB98').nearestName(), { name: 'palegreen', distance: 0 })
+			assert.strictEqual(xjs_Color.fromString('#336699').nearestName(           ).name, 'royalblue')
+			assert.strictEqual(xjs_Color.fromString('#336699').nearestName(DeltaE.OK  ).name, 'steelblue')
+			assert.strictEqual(xjs_Color.fromString('#123456').nearestName(           ).name, 'midnightblue')
+			assert.strictEqual(xjs_Color.fromString('#c0ffee').nearestName(           ).distance.toFixed(4), '7.0634')
+		})
+	})
+
+	describe('.fromAnsi256(number): Color', () => {
+		it('returns the xterm palette color at the given index.', () => {
+			assert.deepStrictEqual([0, 9, 16, 67, 231, 232, 255].map((i) => xjs_Color.fromAnsi256(i).toString()), [
+				'#000000', '#ff0000', '#000000', '#5f87af', '#ffffff', '#080808', '#eeeeee',
+			])
+		})
+		it('throws if the index is not an integer in [0, 255].', () => {
+			assert.throws(() => xjs_Color.fromAnsi256(-1 ), RangeError)
+			assert.throws(() => xjs_Color.fromAnsi256(256), RangeError)
+			assert.throws(() => xjs_Color.fromAnsi256(1.5), RangeError)
+		})
+	})
+
+	describe('#ansi16, #ansi256', () => {
+		it('returns the nearest palette index.', () => {
+			assert.strictEqual(xjs_Color.fromString('#336699').ansi16(), 12)
+			assert.strictEqual(xjs_Color.fromString('#336699').ansi256(), 25)
+			assert.strictEqual(xjs_Color.fromString('#808080').ansi256(), 244)
+			assert.strictEqual(xjs_Color.fromString('#ff0000').ansi256(), 196)
+		})
+		it('maps each palette color to its own index.', () => {
+			for (let i = 0; i < 16; i++) assert.strictEqual(xjs_Color.fromAnsi256(i).ansi16(), i)
+			for (let i = 16; i < 256; i++) assert.strictEqual(xjs_Color.fromAnsi256(i).ansi256(), i)
+		})
+	})
+
+	describe('#toAnsi', () => {
+		it('returns an escape sequence for the given color mode.', () => {
+			const color: xjs_Color = xjs_Color.fromString('#336699')
+			assert.strictEqual(color.toAnsi(                          ), '\x1b[38;2;51;102;153m')
+			assert.strictEqual(color.toAnsi(AnsiColorMode.ANSI_256    ), '\x1b[38;5;25m')
+			assert.strictEqual(color.toAnsi(AnsiColorMode.ANSI_16     ), '\x1b[94m')
+			assert.strictEqual(color.toAnsi(AnsiColorMode.ANSI_16, true), '\x1b[104m')
+			assert.strictEqual(xjs_Color.fromString('#ff0000').toAnsi(AnsiColorMode.ANSI_16     ), '\x1b[91m')
+			assert.strictEqual(xjs_Color.fromString('#ff0000').toAnsi(AnsiColorMode.ANSI_256, true), '\x1b[48;5;196m')
+			assert.strictEqual(xjs_Color.ANSI_RESET, '\x1b[0m')
+		})
 	})
 })
@@ -0,0 +1,46 @@
+import * as assert from 'assert'
+import xjs_Color, {ColorSpace} from '../src/class/Color.class'
+import xjs_ColorScale from '../src/class/ColorScale.class'
+
+describe('xjs.ColorScale', () => {
+	const black : xjs_Color = new xjs_Color('#000000')
+	const white : xjs_Color = new xjs_Color('#ffffff')
+	const red   : xjs_Color = new xjs_Color('#ff0000')
+	const yellow: xjs_Color = new xjs_Color('#ffff00')
+	const blue  : xjs_Color = new xjs_Color('#0000ff')
+
+	describe('.constructor', () => {
+		it('resolves missing and decreasing stop positions.', () => {
+			assert.deepStrictEqual(new xjs_ColorScale([red, yellow, blue]).stops.map(([_c, p]) => p.valueOf()), [0, 0.5, 1])
+			assert.deepStrictEqual(new xjs_ColorScale([red, yellow, white, [blue, 0.75]]).stops.map(([_c, p]) => p.valueOf()), [0, 0.25, 0.5, 0.75])
+			assert.deepStrictEqual(new xjs_ColorScale([[black, 0.2], [white, 0.1], red]).stops.map(([_c, p]) => p.valueOf()), [0.2, 0.2, 1])
+		})
+		it('throws if no stops are given.', () => {
+			assert.throws(() => new xjs_ColorScale([]), Error)
+		})
+	})
+
+	describe('#at', () => {
+		it('returns the color at a given position.', () => {
+			const scale: xjs_ColorScale = new xjs_ColorScale([[black, 0.2], [white, 0.1], red], { space: ColorSpace.SRGB })
+			assert.strictEqual(scale.at(0  ).toString(), '#000000')
+			assert.strictEqual(scale.at(0.2).toString(), '#ffffff')
+			assert.strictEqual(scale.at(0.6).toString(), '#ff8080')
+			assert.strictEqual(scale.at(1  ).toString(), '#ff0000')
+		})
+		it('applies the easing between stops.', () => {
+			const scale: xjs_ColorScale = new xjs_ColorScale([black, white], { space: ColorSpace.SRGB, easing: (t) => t * t })
+			assert.strictEqual(scale.at(0.5).toString(), '#404040')
+		})
+	})
+
+	describe('#sample', () => {
+		it('returns evenly sampled colors.', () => {
+			assert.deepStrictEqual(new xjs_ColorScale([red, yellow, blue]).sample(5).map((c) => c.toString()), ['#ff0000', '#ffa000', '#ffff00', '#6cabc7', '#0000ff'])
+			assert.deepStrictEqual(new xjs_ColorScale([red, blue], { space: ColorSpace.OKLCH }).sample(3).map((c) => c.toString()), ['#ff0000', '#ba00c2', '#0000ff'])
+			assert.deepStrictEqual(new xjs_ColorScale([red, blue]).sample(1).map((c) => c.toString()), ['#ff0000'])
+			assert.deepStrictEqual(new xjs_ColorScale([red, blue]).sample(0), [])
+			assert.throws(() => new xjs_ColorScale([red, blue]).sample(2.5), RangeError)
+		})
+	})
+})
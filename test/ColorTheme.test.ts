@@ -0,0 +1,85 @@
+import * as assert from 'assert'
+import xjs_Color, {ColorSpace} from '../src/class/Color.class'
+import xjs_ColorTheme from '../src/class/ColorTheme.class'
+
+describe('xjs.ColorTheme', () => {
+	const primary: xjs_Color = new xjs_Color('#336699')
+	const accent : xjs_Color = new xjs_Color('#ff6347')
+	const theme: xjs_ColorTheme = new xjs_ColorTheme({ primary, accent, blue: primary.ladder([100, 500, 900]) })
+
+	describe('.constructor', () => {
+		it('flattens groups of colors by step.', () => {
+			assert.deepStrictEqual([...theme.tokens].map(([name, color]) => `${name} ${color}`), [
+				'primary #336699',
+				'accent #ff6347',
+				'blue-100 #e4f8ff',
+				'blue-500 #336699',
+				'blue-900 #00214e',
+			])
+			assert.deepStrictEqual([...new xjs_ColorTheme(new Map([['primary', primary]])).tokens.keys()], ['primary'])
+		})
+		it('throws if a token name is invalid.', () => {
+			assert.throws(() => new xjs_ColorTheme({ 'primary color': primary }), RangeError)
+			assert.throws(() => new xjs_ColorTheme({ '-primary': primary }), RangeError)
+			assert.throws(() => new xjs_ColorTheme({ 500: primary }), RangeError)
+			assert.throws(() => new xjs_ColorTheme(new Map([['1st', primary]])), RangeError)
+			assert.throws(() => new xjs_ColorTheme({ blue: new Map([['1.5', primary]]) }), RangeError)
+		})
+		it('throws if two colors have the same name once flattened.', () => {
+			assert.throws(() => new xjs_ColorTheme({ 'blue-100': primary, blue: new Map([[100, accent]]) }), RangeError)
+			assert.throws(() => new xjs_ColorTheme({ blue: new Map<string|number, xjs_Color>([[100, primary], ['100', accent]]) }), RangeError)
+		})
+	})
+
+	describe('#toCSS', () => {
+		it('returns a rule of custom properties.', () => {
+			assert.strictEqual(theme.toCSS(), [
+				':root {',
+				'\t--primary: #336699;',
+				'\t--accent: #ff6347;',
+				'\t--blue-100: #e4f8ff;',
+				'\t--blue-500: #336699;',
+				'\t--blue-900: #00214e;',
+				'}',
+				'',
+			].join('\n'))
+		})
+		it('applies the selector, prefix, and color format.', () => {
+			assert.strictEqual(new xjs_ColorTheme({ primary }).toCSS({
+				selector: '.dark',
+				prefix: 'brand-',
+				space: ColorSpace.OKLCH,
+				format: { precision: 3 },
+			}), '.dark {\n\t--brand-primary: oklch(0.499 0.099 0.696turn);\n}\n')
+		})
+	})
+
+	describe('#toSCSS', () => {
+		it('returns variable declarations.', () => {
+			assert.strictEqual(theme.toSCSS({ prefix: 'brand-' }), [
+				'$brand-primary: #336699;',
+				'$brand-accent: #ff6347;',
+				'$brand-blue-100: #e4f8ff;',
+				'$brand-blue-500: #336699;',
+				'$brand-blue-900: #00214e;',
+				'',
+			].join('\n'))
+			assert.strictEqual(new xjs_ColorTheme({ primary }).toSCSS({ space: ColorSpace.RGB, format: { legacy: true } }), '$primary: rgb(51, 102, 153);\n')
+		})
+	})
+
+	describe('#toDesignTokens', () => {
+		it('returns tokens of type color, with groups nested.', () => {
+			assert.deepStrictEqual(JSON.parse(theme.toDesignTokens()), {
+				primary: { $type: 'color', $value: '#336699' },
+				accent : { $type: 'color', $value: '#ff6347' },
+				blue: {
+					100: { $type: 'color', $value: '#e4f8ff' },
+					500: { $type: 'color', $value: '#336699' },
+					900: { $type: 'color', $value: '#00214e' },
+				},
+			})
+			assert.strictEqual(new xjs_ColorTheme({ accent }).toDesignTokens({ format: { uppercase: true } }), '{\n\t"accent": {\n\t\t"$type": "color",\n\t\t"$value": "#FF6347"\n\t}\n}\n')
+		})
+	})
+})